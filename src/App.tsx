@@ -1,12 +1,31 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import './App.css'
 import DropZone from './components/DropZone'
-import { extractAscFromZip } from './utils/zipHandler'
-import { parseAscFilesFromFolders } from './utils/parser'
-import { generateExcel, downloadExcel } from './utils/excel'
+import DiagnosticsPanel from './components/DiagnosticsPanel'
+import InputQueue from './components/InputQueue'
+import CatalogPicker from './components/CatalogPicker'
+import SectionReview from './components/SectionReview'
+import DataPreview from './components/DataPreview'
+import QualityRules from './components/QualityRules'
+import type { Diagnostic } from './utils/diagnostics'
+import { ChildAggregation, DEFAULT_CONSOLIDATION } from './utils/consolidate'
+import { DEFAULT_KEY_FORMAT, KEY_FORMATS } from './utils/pedimentoKey'
+import { DEDUP_POLICY_LABELS, DedupPolicy } from './utils/dedup'
+import { DEFAULT_UPDATE_POLICY, isWorkbookInput, UPDATE_POLICY_LABELS, UpdatePolicy } from './utils/workbookUpdate'
+import { downloadExcel } from './utils/excel'
+import { formatSectionChanges } from './utils/diff'
+import type { QualityRuleSettings } from './utils/qualityRules'
+import { formatTableSplit, outputBaseName, PipelineInput, SectionSummary } from './utils/pipeline'
+import type { SectionSelection } from './utils/selection'
+import type { PreviewQuery } from './utils/preview'
+import { SectionCatalog, SHEET_LANGUAGE_LABELS, SheetLanguage } from './utils/sectionCatalog'
+import { ENCODING_OPTION_LABELS, EncodingOption } from './utils/encoding'
+import { CSV_DELIMITER_LABELS, DEFAULT_OUTPUT_FORMAT, OUTPUT_WRITERS, OutputFormat, outputFileName } from './utils/output'
+import { PipelineRun, startPipeline } from './workers/pipelineClient'
 import logoImage from './assets/Transparent_image_no_bg.png'
 
 function App() {
+  const [queuedInputs, setQueuedInputs] = useState<PipelineInput[]>([])
   const [progress, setProgress] = useState(0)
   const [isProcessing, setIsProcessing] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -14,6 +33,34 @@ function App() {
   const [processingInfo, setProcessingInfo] = useState<string[]>([])
   const [debugInfo, setDebugInfo] = useState<string[]>([])
   const [showDebug, setShowDebug] = useState(false)
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([])
+  const [includeValidationSheet, setIncludeValidationSheet] = useState(true)
+  const [includeIndexSheet, setIncludeIndexSheet] = useState(true)
+  const [includeConsolidated, setIncludeConsolidated] = useState(false)
+  const [currentStateOnly, setCurrentStateOnly] = useState(false)
+  const [includeContributions, setIncludeContributions] = useState(false)
+  const [includeImmex, setIncludeImmex] = useState(false)
+  const [compareMode, setCompareMode] = useState(false)
+  const [applyQualityRules, setApplyQualityRules] = useState(false)
+  const [qualityRuleSettings, setQualityRuleSettings] = useState<QualityRuleSettings>({})
+  const [keyFormat, setKeyFormat] = useState(DEFAULT_KEY_FORMAT)
+  const [encoding, setEncoding] = useState<EncodingOption>('auto')
+  const [dedupPolicy, setDedupPolicy] = useState<DedupPolicy>('none')
+  const [updatePolicy, setUpdatePolicy] = useState<UpdatePolicy>(DEFAULT_UPDATE_POLICY)
+  const [sectionCatalog, setSectionCatalog] = useState<SectionCatalog | null>(null)
+  const [catalogName, setCatalogName] = useState<string | null>(null)
+  const [sheetLanguage, setSheetLanguage] = useState<SheetLanguage>('es')
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(DEFAULT_OUTPUT_FORMAT)
+  const [csvDelimiter, setCsvDelimiter] = useState(',')
+  const [consolidationAggregation, setConsolidationAggregation] = useState<ChildAggregation | 'default'>('default')
+  const pipelineRun = useRef<PipelineRun | null>(null)
+  const [reviewBeforeGenerate, setReviewBeforeGenerate] = useState(true)
+  // Sections waiting for the user's selection, and the pending review of the run
+  const [reviewSections, setReviewSections] = useState<SectionSummary[] | null>(null)
+  const reviewResolver = useRef<((selection: SectionSelection | null) => void) | null>(null)
+  // Sections of the last parsed inputs, and the run whose worker holds their rows
+  const [previewSections, setPreviewSections] = useState<SectionSummary[] | null>(null)
+  const previewRun = useRef<PipelineRun | null>(null)
 
   // Log errors to console for debugging
   useEffect(() => {
@@ -22,135 +69,159 @@ function App() {
     }
   }, [error]);
 
+  // Stop the worker kept for the preview when the page goes away
+  useEffect(() => () => previewRun.current?.dispose(), []);
+
   const addDebugInfo = (message: string) => {
     console.log(message);
     setDebugInfo(prev => [...prev, message]);
   };
 
-  const handleFileAccepted = async (file: File) => {
+  const handleFilesAccepted = (inputs: PipelineInput[]) => {
+    // A file dropped again replaces the queued one with the same path
+    setQueuedInputs(prev => [
+      ...prev.filter(queued => !inputs.some(input => input.name === queued.name)),
+      ...inputs
+    ])
+    setError(null)
+    setSuccessMessage(null)
+  }
+
+  const handleRemoveInput = (name: string) => {
+    setQueuedInputs(prev => prev.filter(input => input.name !== name))
+  }
+
+  const clearPreview = () => {
+    previewRun.current?.dispose()
+    previewRun.current = null
+    setPreviewSections(null)
+  }
+
+  const handleConvert = async () => {
+    const inputs = queuedInputs
+    clearPreview()
     setIsProcessing(true)
     setProgress(0)
     setError(null)
     setSuccessMessage(null)
     setProcessingInfo([])
-    setDebugInfo([`Procesando archivo: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB)`])
+    setDiagnostics([])
+    setDebugInfo(inputs.map(input => `Procesando archivo: ${input.name} (${((input.data as Blob).size / 1024 / 1024).toFixed(2)} MB)`))
     setShowDebug(false)
 
     try {
-      // Extract ASC files from ZIP
-      setProcessingInfo([`Extrayendo archivos ASC de ${file.name}...`])
-      addDebugInfo("Iniciando extracción ZIP...");
-      
-      const fileContents = await extractAscFromZip(file, {
+      // Extraction, parsing and output generation run in a Web Worker
+      const run = startPipeline(inputs, {
+        keyFormat,
+        encoding,
+        dedup: dedupPolicy,
+        updatePolicy,
+        currentState: currentStateOnly,
+        contributions: includeContributions,
+        immex: includeImmex,
+        qualityRules: applyQualityRules ? qualityRuleSettings : undefined,
+        compare: compareMode,
+        sectionCatalog: sectionCatalog || undefined,
+        sheetLanguage,
+        outputFormat,
+        csvDelimiter,
+        validationSheet: includeValidationSheet,
+        indexSheet: includeIndexSheet,
+        consolidation: includeConsolidated
+          ? {
+              ...DEFAULT_CONSOLIDATION,
+              aggregation: consolidationAggregation === 'default' ? undefined : consolidationAggregation
+            }
+          : undefined
+      }, {
         onProgress: (percent) => setProgress(percent),
-        onError: (errorMsg) => {
-          setError(errorMsg);
-          addDebugInfo(`Error de extracción ZIP: ${errorMsg}`);
-        },
-        onInfo: (info) => {
-          addDebugInfo(info);
-        }
+        onStatus: (message) => setProcessingInfo(prev => [...prev, message]),
+        onInfo: addDebugInfo,
+        onDiagnostics: setDiagnostics,
+        // The comparison has no section tables to preview or review
+        onParsed: compareMode ? undefined : (sections) => setPreviewSections(sections),
+        onReview: reviewBeforeGenerate && !compareMode
+          ? (sections) => new Promise(resolve => {
+              reviewResolver.current = resolve
+              setReviewSections(sections)
+            })
+          : undefined
       })
-
-      // Update info about extracted files
-      const fileCount = fileContents.size
-      addDebugInfo(`Extraídos ${fileCount} archivos del ZIP`);
-      
-      if (fileCount === 0) {
-        addDebugInfo("No se extrajo ningún archivo. Mostrando panel de depuración automáticamente.");
-        setShowDebug(true);
-        setError("No se pudieron extraer archivos ASC del archivo ZIP. Los archivos ASC pueden estar en una estructura de subcarpetas. Consulte la información de depuración para obtener más detalles.");
-        setIsProcessing(false);
-        return;
-      }
-      
-      setProcessingInfo(prev => [...prev, `Se encontraron ${fileCount} archivos ASC en el archivo ZIP.`])
-
-      // Parse ASC files
-      setProcessingInfo(prev => [...prev, 'Analizando archivos ASC y organizando por código de sección...'])
-      addDebugInfo("Iniciando análisis ASC...");
-      
-      // Create a map of folder to files
-      const folderMap = new Map<string, Map<string, string>>();
-      
-      // Group files by folder
-      for (const [path, content] of fileContents.entries()) {
-        // Split path into folder and filename
-        const parts = path.split('/');
-        const folderName = parts.length > 1 ? parts[0] : 'main';
-        const fileName = parts.length > 1 ? parts.slice(1).join('/') : path;
-        
-        // Initialize folder map if it doesn't exist
-        if (!folderMap.has(folderName)) {
-          folderMap.set(folderName, new Map<string, string>());
-        }
-        
-        // Add file to folder map
-        folderMap.get(folderName)?.set(fileName, content);
-      }
+      pipelineRun.current = run
+      previewRun.current = run
       
-      addDebugInfo(`Organized files into ${folderMap.size} folders: ${Array.from(folderMap.keys()).join(', ')}`);
-      
-      // Use the new function to parse files from multiple folders
-      const { sectionMap, error: parseError } = parseAscFilesFromFolders(folderMap);
-      
-      if (parseError) {
-        setError(parseError)
-        addDebugInfo(`Parse error: ${parseError}`);
-        setIsProcessing(false)
-        return
-      }
-
-      // Show info about section codes
-      const sectionCodes = Array.from(sectionMap.keys()).sort()
-      addDebugInfo(`Se encontraron ${sectionCodes.length} códigos de sección diferentes`);
+      const output = await run.promise
       
-      const sectionSummary = sectionCodes.map(code => {
-        const count = sectionMap.get(code)?.length || 0
-        addDebugInfo(`Sección ${code}: ${count} filas`);
-        return `Sección ${code}: ${count} filas`
-      })
-
-      setProcessingInfo(prev => [
-        ...prev, 
-        `Datos analizados organizados en ${sectionCodes.length} códigos de sección:`,
-        ...sectionSummary
-      ])
-
-      if (sectionMap.size === 0) {
-        setError('No se encontraron datos válidos en los archivos ASC.')
-        addDebugInfo("No se encontraron secciones en los datos analizados");
-        setIsProcessing(false)
+      if (!output) {
+        clearPreview()
+        setProcessingInfo([])
+        addDebugInfo("Proceso cancelado por el usuario");
+        setError('Se canceló el procesamiento del archivo.')
         return
       }
-
-      // Generate Excel file
-      setProcessingInfo(prev => [...prev, 'Generando archivo Excel...'])
-      addDebugInfo("Iniciando generación de Excel...");
-      
-      const fileName = file.name.replace(/\.(zip|ZIP)$/, '')
-      const excelBlob = generateExcel(sectionMap)
       
-      // Download the Excel file
+      // Download the generated file
       setProcessingInfo(prev => [...prev, 'Preparando descarga...'])
       addDebugInfo("Iniciando descarga...");
       
-      downloadExcel(excelBlob, fileName)
+      const fileName = outputFileName(outputBaseName(inputs.map(input => input.name), compareMode), output.format)
+      downloadExcel(output.blob, fileName)
       
-      setSuccessMessage(`El archivo Excel "${fileName}.xlsx" ha sido creado con ${sectionCodes.length} hojas.`)
+      setQueuedInputs([])
+      const duplicates = output.sections.reduce((total, section) => total + section.duplicates, 0)
+      // Continuation sheets of the tables over the Excel row limit, plus the index sheet
+      const sheetCount = output.tableCount + output.splits.reduce((total, split) => total + split.parts - 1, 0) +
+        (includeIndexSheet ? 1 : 0)
+      setSuccessMessage(
+        (output.format === 'xlsx'
+          ? `El archivo Excel "${fileName}" ha sido creado con ${sheetCount} hojas.`
+          : `El archivo "${fileName}" ha sido creado con ${output.tableCount} tablas.`) +
+        (output.splits.length > 0
+          ? ` Límite de filas de Excel excedido: ${output.splits.map(split => formatTableSplit(split, output.format)).join('; ')}.`
+          : '') +
+        (output.changes
+          ? ` ${output.changes.map(changes => formatSectionChanges(changes)).join('; ')}.`
+          : '') +
+        (duplicates > 0
+          ? ` Filas duplicadas ${dedupPolicy === 'flag' ? 'marcadas' : 'eliminadas'}: ${output.sections
+              .filter(section => section.duplicates > 0)
+              .map(section => `${section.code}: ${section.duplicates}`)
+              .join(', ')}.`
+          : '')
+      )
       addDebugInfo("Proceso completado exitosamente");
       setProgress(100)
     } catch (err) {
+      clearPreview()
       const errorMessage = 'Error al procesar el archivo: ' + (err instanceof Error ? err.message : String(err));
       setError(errorMessage)
       addDebugInfo(`Error inesperado: ${errorMessage}`);
       console.error("Error de proceso:", err);
       setShowDebug(true);
     } finally {
+      pipelineRun.current = null
+      reviewResolver.current = null
+      setReviewSections(null)
       setIsProcessing(false)
     }
   }
 
+  const handleCancel = () => {
+    pipelineRun.current?.cancel()
+  }
+
+  // Stable across renders so the preview grid doesn't refetch on every render
+  const queryPreview = useCallback((query: PreviewQuery) => {
+    const run = previewRun.current
+    return run ? run.preview(query) : Promise.reject(new Error('No hay datos analizados'))
+  }, [])
+
+  const finishReview = (selection: SectionSelection | null) => {
+    reviewResolver.current?.(selection)
+    reviewResolver.current = null
+    setReviewSections(null)
+  }
+
   return (
     <div className="app-container">
       <header>
@@ -163,13 +234,242 @@ function App() {
 
       <main>
         <div className="app-card">
-          <h2 className="section-title">Sube tu archivo</h2>
+          <h2 className="section-title">Sube tus archivos</h2>
           <DropZone 
-            onFileAccepted={handleFileAccepted}
+            onFilesAccepted={handleFilesAccepted}
+            onCancel={handleCancel}
             progress={progress}
             isProcessing={isProcessing}
           />
           
+          <InputQueue
+            inputs={queuedInputs}
+            onRemove={handleRemoveInput}
+            onClear={() => setQueuedInputs([])}
+            onConvert={handleConvert}
+            disabled={isProcessing}
+            compare={compareMode}
+          />
+          
+          {reviewSections && (
+            <SectionReview
+              sections={reviewSections}
+              catalog={sectionCatalog}
+              language={sheetLanguage}
+              onGenerate={finishReview}
+              onCancel={() => finishReview(null)}
+            />
+          )}
+          
+          {previewSections && (
+            <DataPreview
+              sections={previewSections}
+              catalog={sectionCatalog}
+              language={sheetLanguage}
+              query={queryPreview}
+            />
+          )}
+          
+          <CatalogPicker
+            catalogName={catalogName}
+            onCatalogLoaded={(catalog, name) => {
+              setSectionCatalog(catalog)
+              setCatalogName(name)
+            }}
+            disabled={isProcessing}
+          />
+          <label className="option-select option-select-top">
+            Idioma de los nombres de hoja:
+            <select
+              value={sheetLanguage}
+              onChange={(e) => setSheetLanguage(e.target.value as SheetLanguage)}
+              disabled={isProcessing}
+            >
+              {(Object.keys(SHEET_LANGUAGE_LABELS) as SheetLanguage[]).map(language => (
+                <option key={language} value={language}>{SHEET_LANGUAGE_LABELS[language]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="option-select option-select-top">
+            Formato de salida:
+            <select
+              value={outputFormat}
+              onChange={(e) => setOutputFormat(e.target.value as OutputFormat)}
+              disabled={isProcessing}
+            >
+              {(Object.keys(OUTPUT_WRITERS) as OutputFormat[]).map(format => (
+                <option key={format} value={format}>{OUTPUT_WRITERS[format].label}</option>
+              ))}
+            </select>
+          </label>
+          {outputFormat === 'csv' && (
+            <label className="option-select option-select-top">
+              Separador de campos CSV:
+              <select
+                value={csvDelimiter}
+                onChange={(e) => setCsvDelimiter(e.target.value)}
+                disabled={isProcessing}
+              >
+                {Object.entries(CSV_DELIMITER_LABELS).map(([delimiter, label]) => (
+                  <option key={delimiter} value={delimiter}>{label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="option-select option-select-top">
+            Codificación de los archivos ASC:
+            <select
+              value={encoding}
+              onChange={(e) => setEncoding(e.target.value as EncodingOption)}
+              disabled={isProcessing}
+            >
+              {(Object.keys(ENCODING_OPTION_LABELS) as EncodingOption[]).map(option => (
+                <option key={option} value={option}>{ENCODING_OPTION_LABELS[option]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="option-select option-select-top">
+            Formato de No_Pedimento:
+            <select
+              value={keyFormat}
+              onChange={(e) => setKeyFormat(e.target.value)}
+              disabled={isProcessing}
+            >
+              {Object.entries(KEY_FORMATS).map(([name, template]) => (
+                <option key={name} value={name}>{name}: {template}</option>
+              ))}
+            </select>
+          </label>
+          <label className="option-select option-select-top">
+            Filas duplicadas entre entregas:
+            <select
+              value={dedupPolicy}
+              onChange={(e) => setDedupPolicy(e.target.value as DedupPolicy)}
+              disabled={isProcessing}
+            >
+              {(Object.keys(DEDUP_POLICY_LABELS) as DedupPolicy[]).map(policy => (
+                <option key={policy} value={policy}>{DEDUP_POLICY_LABELS[policy]}</option>
+              ))}
+            </select>
+          </label>
+          {queuedInputs.some(input => isWorkbookInput(input.name)) && (
+            <label className="option-select option-select-top">
+              Pedimentos que ya están en el libro a actualizar:
+              <select
+                value={updatePolicy}
+                onChange={(e) => setUpdatePolicy(e.target.value as UpdatePolicy)}
+                disabled={isProcessing}
+              >
+                {(Object.keys(UPDATE_POLICY_LABELS) as UpdatePolicy[]).map(policy => (
+                  <option key={policy} value={policy}>{UPDATE_POLICY_LABELS[policy]}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="option-toggle">
+            <input
+              type="checkbox"
+              checked={compareMode}
+              onChange={(e) => setCompareMode(e.target.checked)}
+              disabled={isProcessing}
+            />
+            Comparar dos extracciones del mismo periodo (la primera en la cola es la anterior) en lugar de convertirlas
+          </label>
+          <label className="option-toggle">
+            <input
+              type="checkbox"
+              checked={reviewBeforeGenerate}
+              onChange={(e) => setReviewBeforeGenerate(e.target.checked)}
+              disabled={isProcessing}
+            />
+            Revisar las secciones y columnas antes de generar el Excel
+          </label>
+          <label className="option-toggle">
+            <input
+              type="checkbox"
+              checked={includeValidationSheet}
+              onChange={(e) => setIncludeValidationSheet(e.target.checked)}
+              disabled={isProcessing}
+            />
+            Incluir hoja "Validación" con los problemas encontrados en los archivos
+          </label>
+          <label className="option-toggle">
+            <input
+              type="checkbox"
+              checked={includeIndexSheet}
+              onChange={(e) => setIncludeIndexSheet(e.target.checked)}
+              disabled={isProcessing}
+            />
+            Incluir hoja "Índice" con vínculos a cada hoja y su número de filas
+          </label>
+          <label className="option-toggle">
+            <input
+              type="checkbox"
+              checked={currentStateOnly}
+              onChange={(e) => setCurrentStateOnly(e.target.checked)}
+              disabled={isProcessing}
+            />
+            Mostrar solo la versión vigente de los pedimentos rectificados (701) e incluir la hoja "Historial de rectificaciones"
+          </label>
+          <label className="option-toggle">
+            <input
+              type="checkbox"
+              checked={includeContributions}
+              onChange={(e) => setIncludeContributions(e.target.checked)}
+              disabled={isProcessing}
+            />
+            Incluir el resumen de contribuciones (510 por mes, patente y aduana) y la conciliación 510 vs 557
+          </label>
+          <label className="option-toggle">
+            <input
+              type="checkbox"
+              checked={includeImmex}
+              onChange={(e) => setIncludeImmex(e.target.checked)}
+              disabled={isProcessing}
+            />
+            Incluir el control IMMEX estilo Anexo 24 (importaciones temporales, retornos y cambios de régimen por partida) y el saldo pendiente por fracción
+          </label>
+          <label className="option-toggle">
+            <input
+              type="checkbox"
+              checked={applyQualityRules}
+              onChange={(e) => setApplyQualityRules(e.target.checked)}
+              disabled={isProcessing}
+            />
+            Aplicar las reglas de calidad (formato de RFC, fracción, patente y pedimento, fechas, importes y referencias entre secciones) e incluir la hoja "Reglas de calidad"
+          </label>
+          {applyQualityRules && (
+            <QualityRules
+              settings={qualityRuleSettings}
+              onChange={setQualityRuleSettings}
+              disabled={isProcessing}
+            />
+          )}
+          <label className="option-toggle">
+            <input
+              type="checkbox"
+              checked={includeConsolidated}
+              onChange={(e) => setIncludeConsolidated(e.target.checked)}
+              disabled={isProcessing}
+            />
+            Incluir hojas consolidadas por pedimento (501 + facturas, contribuciones...) y por partida (551 + 552–558)
+          </label>
+          {includeConsolidated && (
+            <label className="option-select">
+              Valores múltiples por pedimento/partida:
+              <select
+                value={consolidationAggregation}
+                onChange={(e) => setConsolidationAggregation(e.target.value as ChildAggregation | 'default')}
+                disabled={isProcessing}
+              >
+                <option value="default">Predeterminado (sumar importes, concatenar textos)</option>
+                <option value="concat">Concatenar todos los valores</option>
+                <option value="first">Solo el primer valor</option>
+                <option value="count">Contar registros</option>
+              </select>
+            </label>
+          )}
+          
           {processingInfo.length > 0 && isProcessing && (
             <div className="processing-info">
               <h3 className="info-title">Estado del procesamiento</h3>
@@ -209,6 +509,8 @@ function App() {
               <p>{successMessage}</p>
             </div>
           )}
+          
+          {!isProcessing && <DiagnosticsPanel diagnostics={diagnostics} />}
         </div>
 
         <div className="app-card">
@@ -243,6 +545,10 @@ function App() {
                 <h4>✅ Beneficio de múltiples carpetas:</h4>
                 <p>¡Los archivos con los mismos códigos de sección de diferentes carpetas se combinarán en la misma hoja de Excel!</p>
               </div>
+              <div className="good">
+                <h4>✅ Varios ZIP en un solo Excel:</h4>
+                <p>Agrega varios ZIP mensuales, archivos .asc sueltos o una carpeta completa a la cola y conviértelos juntos; la columna "Origen" indica de qué archivo viene cada fila.</p>
+              </div>
             </div>
           </div>
         </div>
@@ -254,7 +560,7 @@ function App() {
               <div className="step-number">1</div>
               <div className="step-content">
                 <h3>Subir ZIP</h3>
-                <p>Arrastra y suelta tu archivo ZIP que contiene archivos .asc</p>
+                <p>Arrastra y suelta uno o varios archivos ZIP con archivos .asc (o los .asc directamente)</p>
               </div>
             </div>
             <div className="step">
@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { loadSectionCatalog, SectionCatalog } from '../utils/sectionCatalog';
+
+interface CatalogPickerProps {
+  // Name of the loaded catalog file (null when the bundled catalog is used)
+  catalogName: string | null;
+  onCatalogLoaded: (catalog: SectionCatalog | null, name: string | null) => void;
+  disabled: boolean;
+}
+
+/**
+ * Load a section catalog JSON file that overrides the bundled one
+ */
+const CatalogPicker = ({ catalogName, onCatalogLoaded, disabled }: CatalogPickerProps) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after editing it
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onCatalogLoaded(loadSectionCatalog(await file.text()), file.name);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleReset = () => {
+    onCatalogLoaded(null, null);
+    setError(null);
+  };
+
+  return (
+    <div className="catalog-picker">
+      <span>Catálogo de secciones: {catalogName ? <strong>{catalogName}</strong> : 'integrado'}</span>
+      <label className="folder-button">
+        Cargar JSON
+        <input type="file" accept=".json,application/json" onChange={handleFile} disabled={disabled} />
+      </label>
+      {catalogName && (
+        <button onClick={handleReset} disabled={disabled}>Restablecer</button>
+      )}
+      {error && <p className="catalog-picker-error">{error}</p>}
+    </div>
+  );
+};
+
+export default CatalogPicker;
@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { SectionSummary } from '../utils/pipeline';
+import { CellValue, formatCellValue } from '../utils/schema';
+import type { PreviewPage, PreviewQuery, PreviewSort } from '../utils/preview';
+import { DEFAULT_SECTION_CATALOG, orderSections, SectionCatalog, sectionSheetName, SheetLanguage } from '../utils/sectionCatalog';
+
+interface DataPreviewProps {
+  sections: SectionSummary[];
+  catalog: SectionCatalog | null;
+  language: SheetLanguage;
+  query: (query: PreviewQuery) => Promise<PreviewPage>;
+}
+
+// Only the visible rows are rendered; the grid needs a fixed row height to place them
+const ROW_HEIGHT = 28;
+const VIEWPORT_HEIGHT = 420;
+// Rows fetched from the worker at once, and extra rows rendered above and below the viewport
+const PAGE_SIZE = 200;
+const OVERSCAN = 10;
+// Wait for the user to stop typing before filtering hundreds of thousands of rows
+const FILTER_DELAY_MS = 300;
+
+interface GridData {
+  // Query the pages belong to (section, sort, filters and search)
+  signature: string;
+  section: string;
+  columns: string[];
+  total: number;
+  sectionCounts: Record<string, number>;
+  pages: Record<number, CellValue[][]>;
+}
+
+/**
+ * Preview of the parsed rows, one tab per section, with sorting, per-column filters
+ * and a pedimento search across all sections
+ */
+const DataPreview = ({ sections, catalog, language, query }: DataPreviewProps) => {
+  const sectionCatalog = catalog || DEFAULT_SECTION_CATALOG;
+  const orderedCodes = useMemo(
+    () => orderSections(sections.map(section => section.code), sectionCatalog, true),
+    [sections, sectionCatalog]
+  );
+
+  const [section, setSection] = useState(orderedCodes[0] || '');
+  const [sort, setSort] = useState<PreviewSort | undefined>();
+  const [filterInputs, setFilterInputs] = useState<Record<string, string>>({});
+  const [pedimentoInput, setPedimentoInput] = useState('');
+  // Filters and search actually queried (debounced)
+  const [applied, setApplied] = useState<{ filters: Record<string, string>; pedimento: string }>({ filters: {}, pedimento: '' });
+  const [data, setData] = useState<GridData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const requested = useRef(new Set<string>());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setApplied({ filters: filterInputs, pedimento: pedimentoInput }), FILTER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [filterInputs, pedimentoInput]);
+
+  const signature = JSON.stringify([section, sort, applied]);
+
+  // A new view starts at the top; pages of the previous views are no longer needed
+  useEffect(() => {
+    requested.current.clear();
+    setScrollTop(0);
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+  }, [signature]);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const visibleRows = Math.ceil(VIEWPORT_HEIGHT / ROW_HEIGHT) + OVERSCAN * 2;
+  const total = data?.signature === signature ? data.total : 0;
+  const lastRow = Math.min(Math.max(total, 1), firstRow + visibleRows);
+
+  // Fetch the pages covering the visible rows
+  useEffect(() => {
+    if (!section) return;
+    const firstPage = Math.floor(firstRow / PAGE_SIZE);
+    const lastPage = Math.floor(Math.max(lastRow - 1, 0) / PAGE_SIZE);
+    for (let page = firstPage; page <= lastPage; page++) {
+      const requestKey = `${signature}:${page}`;
+      if (requested.current.has(requestKey)) continue;
+      requested.current.add(requestKey);
+
+      query({ section, sort, filters: applied.filters, pedimento: applied.pedimento, offset: page * PAGE_SIZE, limit: PAGE_SIZE })
+        .then((result) => {
+          setError(null);
+          setData(prev => {
+            const pages = prev?.signature === signature ? prev.pages : {};
+            return {
+              signature,
+              section,
+              columns: result.columns,
+              total: result.total,
+              sectionCounts: result.sectionCounts,
+              pages: { ...pages, [page]: result.rows }
+            };
+          });
+        })
+        .catch((err) => {
+          requested.current.delete(requestKey);
+          setError(err instanceof Error ? err.message : String(err));
+        });
+    }
+  }, [query, section, sort, applied, signature, firstRow, lastRow]);
+
+  const current = data?.signature === signature ? data : null;
+  // Keep showing the previous view's columns and counts while the new one loads
+  const columns = current?.columns || (data?.section === section ? data.columns : []);
+  const sectionCounts = data?.sectionCounts;
+
+  const rowAt = (index: number): CellValue[] | undefined => current?.pages[Math.floor(index / PAGE_SIZE)]?.[index % PAGE_SIZE];
+
+  const handleSort = (column: string) => {
+    // Ascending, descending, then file order
+    setSort(prev => {
+      if (prev?.column !== column) return { column, descending: false };
+      return prev.descending ? undefined : { column, descending: true };
+    });
+  };
+
+  const handleSectionChange = (code: string) => {
+    setSection(code);
+    setSort(undefined);
+    setFilterInputs({});
+  };
+
+  if (orderedCodes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="data-preview">
+      <div className="data-preview-header">
+        <h3 className="info-title">Vista previa de los datos</h3>
+        <input
+          type="search"
+          className="data-preview-search"
+          placeholder="Buscar No_Pedimento en todas las secciones"
+          value={pedimentoInput}
+          onChange={(e) => setPedimentoInput(e.target.value)}
+        />
+      </div>
+
+      <div className="data-preview-tabs">
+        {orderedCodes.map(code => {
+          const count = sectionCounts?.[code] ?? sections.find(item => item.code === code)?.rows ?? 0;
+          return (
+            <button
+              key={code}
+              className={`${code === section ? 'active' : ''} ${applied.pedimento && count === 0 ? 'empty' : ''}`}
+              onClick={() => handleSectionChange(code)}
+            >
+              {sectionSheetName(code, sectionCatalog, language)} ({count})
+            </button>
+          );
+        })}
+      </div>
+
+      <div
+        className="data-preview-viewport"
+        ref={viewportRef}
+        style={{ height: VIEWPORT_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <table className="data-preview-table">
+          <thead>
+            <tr>
+              <th className="data-preview-index">#</th>
+              {columns.map(column => (
+                <th key={column} onClick={() => handleSort(column)} title="Ordenar">
+                  {column}
+                  {sort?.column === column && (sort.descending ? ' ▼' : ' ▲')}
+                </th>
+              ))}
+            </tr>
+            <tr className="data-preview-filters">
+              <th className="data-preview-index"></th>
+              {columns.map(column => (
+                <th key={column}>
+                  <input
+                    type="text"
+                    placeholder="Filtrar"
+                    value={filterInputs[column] || ''}
+                    onChange={(e) => setFilterInputs(prev => ({ ...prev, [column]: e.target.value }))}
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr style={{ height: firstRow * ROW_HEIGHT }} />
+            {current && Array.from({ length: Math.max(0, Math.min(total, lastRow) - firstRow) }, (_, offset) => {
+              const index = firstRow + offset;
+              const row = rowAt(index);
+              return (
+                <tr key={index} style={{ height: ROW_HEIGHT }}>
+                  <td className="data-preview-index">{index + 1}</td>
+                  {columns.map((column, columnIndex) => {
+                    const value = row?.[columnIndex];
+                    return (
+                      <td key={column} className={typeof value === 'number' ? 'numeric' : ''}>
+                        {row ? formatCellValue(value) : '…'}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            <tr style={{ height: Math.max(0, total - lastRow) * ROW_HEIGHT }} />
+          </tbody>
+        </table>
+      </div>
+
+      <p className="data-preview-note">
+        {current
+          ? `${current.total.toLocaleString('es-MX')} filas${applied.pedimento || Object.values(applied.filters).some(Boolean) ? ' coinciden con la búsqueda' : ''}`
+          : 'Cargando...'}
+        {error && ` · ${error}`}
+      </p>
+    </div>
+  );
+};
+
+export default DataPreview;
@@ -0,0 +1,82 @@
+import { useMemo, useState } from 'react';
+import { countDiagnostics, Diagnostic, DiagnosticSeverity, SEVERITY_LABELS, sortDiagnostics } from '../utils/diagnostics';
+
+interface DiagnosticsPanelProps {
+  diagnostics: Diagnostic[];
+}
+
+// Rendering every diagnostic of a huge drop would freeze the page
+const MAX_VISIBLE_ROWS = 500;
+
+const DiagnosticsPanel = ({ diagnostics }: DiagnosticsPanelProps) => {
+  const [severityFilter, setSeverityFilter] = useState<DiagnosticSeverity | 'all'>('all');
+
+  const counts = useMemo(() => countDiagnostics(diagnostics), [diagnostics]);
+  const visibleDiagnostics = useMemo(() => {
+    const filtered = severityFilter === 'all'
+      ? diagnostics
+      : diagnostics.filter(diagnostic => diagnostic.severity === severityFilter);
+    return sortDiagnostics(filtered);
+  }, [diagnostics, severityFilter]);
+
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="diagnostics-panel">
+      <h3 className="info-title">Validación de archivos</h3>
+      <div className="diagnostics-filters">
+        <button
+          className={severityFilter === 'all' ? 'active' : ''}
+          onClick={() => setSeverityFilter('all')}
+        >
+          Todos ({diagnostics.length})
+        </button>
+        {(Object.keys(counts) as DiagnosticSeverity[]).map(severity => (
+          <button
+            key={severity}
+            className={`severity-${severity} ${severityFilter === severity ? 'active' : ''}`}
+            onClick={() => setSeverityFilter(severity)}
+            disabled={counts[severity] === 0}
+          >
+            {SEVERITY_LABELS[severity]} ({counts[severity]})
+          </button>
+        ))}
+      </div>
+
+      <div className="diagnostics-table-wrapper">
+        <table className="diagnostics-table">
+          <thead>
+            <tr>
+              <th>Severidad</th>
+              <th>Archivo</th>
+              <th>Línea</th>
+              <th>Columna</th>
+              <th>Mensaje</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleDiagnostics.slice(0, MAX_VISIBLE_ROWS).map((diagnostic, index) => (
+              <tr key={index} className={`severity-${diagnostic.severity}`}>
+                <td>{SEVERITY_LABELS[diagnostic.severity]}</td>
+                <td>{diagnostic.file}</td>
+                <td>{diagnostic.line}</td>
+                <td>{diagnostic.column}</td>
+                <td>{diagnostic.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {visibleDiagnostics.length > MAX_VISIBLE_ROWS && (
+        <p className="diagnostics-note">
+          Mostrando {MAX_VISIBLE_ROWS} de {visibleDiagnostics.length} entradas. La hoja "Validación" del Excel contiene la lista completa.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -1,50 +1,86 @@
-import { useCallback, useState } from 'react';
-import { useDropzone } from 'react-dropzone';
+import { ChangeEvent, useCallback, useState } from 'react';
+import { FileWithPath, useDropzone } from 'react-dropzone';
 import { Line } from 'rc-progress';
+import { isArchiveInput, PipelineInput } from '../utils/pipeline';
+import { isWorkbookInput } from '../utils/workbookUpdate';
 
 interface DropZoneProps {
-  onFileAccepted: (file: File) => void;
+  // Archives (ZIP, TAR, .tar.gz), loose .asc files and a workbook to update (.xlsx),
+  // named by their path relative to the dropped folder
+  onFilesAccepted: (inputs: PipelineInput[]) => void;
+  onCancel?: () => void;
   progress: number;
   isProcessing: boolean;
 }
 
-const DropZone = ({ onFileAccepted, progress, isProcessing }: DropZoneProps) => {
+// Max file size: 500MB (processing runs in a Web Worker, so large drops don't freeze the tab)
+const MAX_SIZE = 500 * 1024 * 1024;
+
+/**
+ * Path of a file relative to the dropped or selected folder (just the name for single files)
+ */
+function relativePath(file: FileWithPath): string {
+  const path = file.relativePath || file.webkitRelativePath || file.name;
+  return path.replace(/^\.?\//, '');
+}
+
+const DropZone = ({ onFilesAccepted, onCancel, progress, isProcessing }: DropZoneProps) => {
   const [error, setError] = useState<string | null>(null);
   
-  // Max file size: 50MB
-  const MAX_SIZE = 50 * 1024 * 1024;
-  
-  const onDrop = useCallback((acceptedFiles: File[]) => {
+  // Dropped folders contain all kinds of files; only archives, .asc files and workbooks are kept
+  const acceptFiles = useCallback((files: FileWithPath[]) => {
     setError(null);
     
-    if (acceptedFiles.length === 0) {
-      return;
-    }
-    
-    const file = acceptedFiles[0];
+    const inputs: PipelineInput[] = [];
+    const problems: string[] = [];
+    let ignoredFiles = 0;
     
-    // Check file type
-    if (!file.name.endsWith('.zip')) {
-      setError('Por favor, sube un archivo ZIP');
-      return;
+    for (const file of files) {
+      const name = relativePath(file);
+      
+      // Check file type
+      if (!isArchiveInput(name) && !isWorkbookInput(name) && !name.toLowerCase().endsWith('.asc')) {
+        ignoredFiles++;
+        continue;
+      }
+      
+      // Check file size
+      if (file.size > MAX_SIZE) {
+        problems.push(`${name} es demasiado grande. El tamaño máximo es 500MB`);
+        continue;
+      }
+      
+      inputs.push({ name, data: file });
     }
     
-    // Check file size
-    if (file.size > MAX_SIZE) {
-      setError(`El archivo es demasiado grande. El tamaño máximo es 50MB`);
-      return;
+    if (ignoredFiles > 0) {
+      problems.push(`Se omitieron ${ignoredFiles} archivos que no son ZIP, TAR, GZ, .asc ni .xlsx`);
+    }
+    if (inputs.length === 0 && problems.length === 0) {
+      problems.push('Por favor, sube archivos ZIP, TAR, GZ o .asc');
     }
+    setError(problems.length > 0 ? problems.join('. ') : null);
     
-    onFileAccepted(file);
-  }, [onFileAccepted]);
+    if (inputs.length > 0) {
+      onFilesAccepted(inputs);
+    }
+  }, [onFilesAccepted]);
+  
+  const onDrop = useCallback((acceptedFiles: FileWithPath[], fileRejections: { file: FileWithPath }[]) => {
+    acceptFiles([...acceptedFiles, ...fileRejections.map(rejection => rejection.file)]);
+  }, [acceptFiles]);
+  
+  const onFolderSelected = (event: ChangeEvent<HTMLInputElement>) => {
+    acceptFiles(Array.from(event.target.files || []));
+    // Allow selecting the same folder again
+    event.target.value = '';
+  };
   
+  // Type and size are checked in acceptFiles so rejected files can be reported together
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/zip': ['.zip']
-    },
-    maxSize: MAX_SIZE,
-    multiple: false
+    multiple: true,
+    disabled: isProcessing
   });
   
   return (
@@ -57,7 +93,7 @@ const DropZone = ({ onFileAccepted, progress, isProcessing }: DropZoneProps) =>
         
         {isProcessing ? (
           <div className="processing-container">
-            <h2>Procesando archivo ZIP...</h2>
+            <h2>Procesando archivos...</h2>
             <Line 
               percent={progress} 
               strokeWidth={3} 
@@ -67,6 +103,18 @@ const DropZone = ({ onFileAccepted, progress, isProcessing }: DropZoneProps) =>
               className="progress-bar"
             />
             <p className="progress-text">{Math.round(progress)}% Completado</p>
+            {onCancel && (
+              <button
+                className="cancel-button"
+                onClick={(e) => {
+                  // Don't let the click reach the dropzone (it would open the file picker)
+                  e.stopPropagation();
+                  onCancel();
+                }}
+              >
+                Cancelar
+              </button>
+            )}
           </div>
         ) : (
           <>
@@ -85,14 +133,28 @@ const DropZone = ({ onFileAccepted, progress, isProcessing }: DropZoneProps) =>
                 </svg>
               )}
             </div>
-            <h2>{isDragActive ? 'Suelta el archivo ZIP aquí' : 'Arrastra y suelta el archivo ZIP aquí'}</h2>
+            <h2>{isDragActive ? 'Suelta los archivos aquí' : 'Arrastra y suelta archivos ZIP, TAR, GZ, .asc o una carpeta aquí'}</h2>
             <p>o haz clic para buscar archivos</p>
-            <p className="file-limit">Tamaño máximo de archivo: 50MB</p>
+            <p className="file-limit">Agrega un Excel generado antes (.xlsx) para sumarle las filas nuevas</p>
+            <p className="file-limit">Tamaño máximo por archivo: 500MB</p>
             
             {error && <p className="dropzone-error">{error}</p>}
           </>
         )}
       </div>
+      
+      {!isProcessing && (
+        <label className="folder-button">
+          Seleccionar carpeta
+          <input
+            type="file"
+            multiple
+            // webkitdirectory isn't in React's input attributes
+            ref={(input) => input?.setAttribute('webkitdirectory', '')}
+            onChange={onFolderSelected}
+          />
+        </label>
+      )}
     </div>
   );
 };
@@ -0,0 +1,83 @@
+import type { PipelineInput } from '../utils/pipeline';
+import { archiveKindFromName } from '../utils/archive';
+import { isWorkbookInput } from '../utils/workbookUpdate';
+
+interface InputQueueProps {
+  inputs: PipelineInput[];
+  onRemove: (name: string) => void;
+  onClear: () => void;
+  onConvert: () => void;
+  disabled: boolean;
+  // Compare the two queued extractions (the first one is the previous) instead of converting them
+  compare?: boolean;
+}
+
+/**
+ * Size in MB of a queued input (Files in the browser, bytes in Node)
+ */
+function formatSize(input: PipelineInput): string {
+  const bytes = input.data instanceof Blob ? input.data.size : input.data.byteLength;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+/**
+ * Type label of a queued input ("ZIP", "TAR", "ASC", "XLSX"...)
+ */
+function inputType(name: string): string {
+  if (isWorkbookInput(name)) return 'XLSX';
+  return (archiveKindFromName(name) || 'asc').toUpperCase();
+}
+
+const InputQueue = ({ inputs, onRemove, onClear, onConvert, disabled, compare = false }: InputQueueProps) => {
+  if (inputs.length === 0) {
+    return null;
+  }
+
+  const workbook = inputs.find(input => isWorkbookInput(input.name));
+
+  return (
+    <div className="input-queue">
+      <h3 className="info-title">Archivos en cola ({inputs.length})</h3>
+      <ul>
+        {inputs.map((input, index) => (
+          <li key={input.name}>
+            {compare && index < 2 && (
+              <span className="input-queue-role">{index === 0 ? 'Anterior' : 'Nueva'}</span>
+            )}
+            <span className="input-queue-type">{inputType(input.name)}</span>
+            <span className="input-queue-name">{input.name}</span>
+            <span className="input-queue-size">{formatSize(input)}</span>
+            <button onClick={() => onRemove(input.name)} disabled={disabled}>Quitar</button>
+          </li>
+        ))}
+      </ul>
+      <div className="input-queue-actions">
+        <button className="convert-button" onClick={onConvert} disabled={disabled || (compare && inputs.length !== 2)}>
+          {compare
+            ? 'Comparar extracciones'
+            : workbook
+            ? `Actualizar ${workbook.name}`
+            : inputs.length === 1 ? 'Convertir a Excel' : `Combinar ${inputs.length} archivos en un Excel`}
+        </button>
+        <button onClick={onClear} disabled={disabled}>Vaciar cola</button>
+      </div>
+      {compare && (
+        <p className="input-queue-note">
+          {inputs.length === 2
+            ? 'Se listan las filas agregadas, eliminadas y modificadas de la extracción nueva respecto a la anterior.'
+            : 'Agrega exactamente dos extracciones: primero la anterior y después la nueva.'}
+        </p>
+      )}
+      {!compare && inputs.length > 1 && (
+        <p className="input-queue-note">La columna "Origen" de cada hoja indica el archivo o carpeta de cada fila.</p>
+      )}
+      {!compare && workbook && (
+        <p className="input-queue-note">
+          Las filas nuevas se agregan a las hojas de {workbook.name}; sus hojas propias se conservan.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default InputQueue;
@@ -0,0 +1,33 @@
+import { QUALITY_RULES, QualityRuleSettings, RULE_SEVERITY_LABELS, ruleSeverity, RuleSeverity } from '../utils/qualityRules';
+
+interface QualityRulesProps {
+  settings: QualityRuleSettings;
+  onChange: (settings: QualityRuleSettings) => void;
+  disabled: boolean;
+}
+
+/**
+ * Severity of each data quality rule (or "Desactivada" to skip it)
+ */
+const QualityRules = ({ settings, onChange, disabled }: QualityRulesProps) => {
+  return (
+    <div className="quality-rules">
+      {QUALITY_RULES.map(rule => (
+        <label key={rule.id} className="option-select">
+          <select
+            value={ruleSeverity(rule, settings)}
+            onChange={(e) => onChange({ ...settings, [rule.id]: e.target.value as RuleSeverity })}
+            disabled={disabled}
+          >
+            {(Object.keys(RULE_SEVERITY_LABELS) as RuleSeverity[]).map(severity => (
+              <option key={severity} value={severity}>{RULE_SEVERITY_LABELS[severity]}</option>
+            ))}
+          </select>
+          {rule.label}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default QualityRules;
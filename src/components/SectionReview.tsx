@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import type { SectionSummary } from '../utils/pipeline';
+import { DEFAULT_SECTION_CATALOG, orderSections, SectionCatalog, sectionSheetName, SheetLanguage } from '../utils/sectionCatalog';
+import {
+  applyPreset, deletePreset, loadPresets, savePreset, SectionSelection, SelectionPreset, selectAll
+} from '../utils/selection';
+
+interface SectionReviewProps {
+  sections: SectionSummary[];
+  catalog: SectionCatalog | null;
+  language: SheetLanguage;
+  onGenerate: (selection: SectionSelection) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Initial selection: every column of the sections the catalog includes
+ */
+function defaultSelection(sections: SectionSummary[], catalog: SectionCatalog): SectionSelection {
+  return selectAll(sections.filter(section => catalog[section.code]?.include !== false));
+}
+
+/**
+ * Review step between parsing and workbook generation: pick the sections, their
+ * columns and column order, and save the choice as a named preset
+ */
+const SectionReview = ({ sections, catalog, language, onGenerate, onCancel }: SectionReviewProps) => {
+  const sectionCatalog = catalog || DEFAULT_SECTION_CATALOG;
+  const [selection, setSelection] = useState<SectionSelection>(() => defaultSelection(sections, sectionCatalog));
+  // Full column order per section, including the unselected columns
+  const [columnOrder, setColumnOrder] = useState<Record<string, string[]>>(
+    () => Object.fromEntries(sections.map(section => [section.code, section.columns]))
+  );
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [presets, setPresets] = useState<SelectionPreset[]>(loadPresets);
+  const [presetName, setPresetName] = useState('');
+
+  const orderedSections = orderSections(sections.map(section => section.code), sectionCatalog, true)
+    .map(code => sections.find(section => section.code === code) as SectionSummary);
+  const selectedCount = Object.keys(selection).length;
+
+  // Selected columns follow the displayed column order
+  const updateSection = (code: string, order: string[], selected: Set<string>) => {
+    setColumnOrder(prev => ({ ...prev, [code]: order }));
+    setSelection(prev => ({ ...prev, [code]: order.filter(column => selected.has(column)) }));
+  };
+
+  const toggleSection = (section: SectionSummary) => {
+    setSelection(prev => {
+      const next = { ...prev };
+      if (section.code in next) delete next[section.code];
+      else next[section.code] = [...columnOrder[section.code]];
+      return next;
+    });
+  };
+
+  const toggleColumn = (code: string, column: string) => {
+    const selected = new Set(selection[code] || []);
+    if (selected.has(column)) selected.delete(column);
+    else selected.add(column);
+    updateSection(code, columnOrder[code], selected);
+  };
+
+  const moveColumn = (code: string, index: number, offset: number) => {
+    const order = [...columnOrder[code]];
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    updateSection(code, order, new Set(selection[code] || []));
+  };
+
+  const handleApplyPreset = (name: string) => {
+    const preset = presets.find(item => item.name === name);
+    if (!preset) return;
+    const applied = applyPreset(preset.selection, sections);
+    // Put the preset's columns first, in its order, followed by the rest
+    setColumnOrder(prev => Object.fromEntries(sections.map(section => {
+      const chosen = applied[section.code] || [];
+      return [section.code, [...chosen, ...prev[section.code].filter(column => !chosen.includes(column))]];
+    })));
+    setSelection(applied);
+    setPresetName(name);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (name) setPresets(savePreset(name, selection));
+  };
+
+  return (
+    <div className="section-review">
+      <h3 className="info-title">Revisa las secciones antes de generar el Excel</h3>
+
+      <div className="section-review-presets">
+        <select value="" onChange={(e) => handleApplyPreset(e.target.value)} disabled={presets.length === 0}>
+          <option value="">{presets.length === 0 ? 'Sin selecciones guardadas' : 'Aplicar selección guardada...'}</option>
+          {presets.map(preset => (
+            <option key={preset.name} value={preset.name}>{preset.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Nombre de la selección"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+        />
+        <button onClick={handleSavePreset} disabled={!presetName.trim()}>Guardar</button>
+        {presets.some(preset => preset.name === presetName.trim()) && (
+          <button onClick={() => setPresets(deletePreset(presetName.trim()))}>Eliminar</button>
+        )}
+      </div>
+
+      <div className="section-review-bulk">
+        <button onClick={() => setSelection(selectAll(sections.map(section => ({ ...section, columns: columnOrder[section.code] }))))}>
+          Seleccionar todas
+        </button>
+        <button onClick={() => setSelection({})}>Ninguna</button>
+      </div>
+
+      <ul className="section-review-list">
+        {orderedSections.map(section => {
+          const included = section.code in selection;
+          const selectedColumns = new Set(selection[section.code] || []);
+          return (
+            <li key={section.code} className={included ? '' : 'excluded'}>
+              <div className="section-review-row">
+                <label>
+                  <input type="checkbox" checked={included} onChange={() => toggleSection(section)} />
+                  {sectionSheetName(section.code, sectionCatalog, language)}
+                </label>
+                <span className="section-review-count">{section.rows} filas</span>
+                {section.columns.length > 0 && (
+                  <button
+                    className="section-review-columns-toggle"
+                    onClick={() => setExpanded(expanded === section.code ? null : section.code)}
+                    disabled={!included}
+                  >
+                    Columnas ({selectedColumns.size}/{section.columns.length})
+                  </button>
+                )}
+              </div>
+              {included && expanded === section.code && (
+                <ol className="section-review-columns">
+                  {columnOrder[section.code].map((column, index) => (
+                    <li key={column}>
+                      <label>
+                        <input
+                          type="checkbox"
+                          checked={selectedColumns.has(column)}
+                          onChange={() => toggleColumn(section.code, column)}
+                        />
+                        {column}
+                      </label>
+                      <button onClick={() => moveColumn(section.code, index, -1)} disabled={index === 0} aria-label="Subir">↑</button>
+                      <button
+                        onClick={() => moveColumn(section.code, index, 1)}
+                        disabled={index === columnOrder[section.code].length - 1}
+                        aria-label="Bajar"
+                      >
+                        ↓
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="section-review-actions">
+        <button className="convert-button" onClick={() => onGenerate(selection)} disabled={selectedCount === 0}>
+          Generar Excel ({selectedCount} {selectedCount === 1 ? 'hoja' : 'hojas'} de secciones)
+        </button>
+        <button onClick={onCancel}>Cancelar</button>
+      </div>
+    </div>
+  );
+};
+
+export default SectionReview;
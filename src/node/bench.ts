@@ -0,0 +1,221 @@
+#!/usr/bin/env node
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import JSZip from 'jszip';
+import { extractAscFromZip, streamAscFromZip, ZipHandlerOptions } from '../utils/zipHandler';
+import { createAscParser, groupFilesByFolder, parseAscFilesFromFolders, ParsedData } from '../utils/parser';
+import { ColumnType, getSectionSchema } from '../utils/schema';
+
+const USAGE = `Usage: npm run bench -- [rows]
+
+Generates a synthetic Data Stage ZIP with one 551 file of <rows> rows (default 200000)
+and parses it with the in-memory (string) and the streaming extraction paths, once keeping
+the typed rows and once dropping them as they are parsed, so the memory taken by the raw
+text can be told apart from the memory taken by the rows.
+Each run is a separate process so the reported peak memory is not shared.`;
+
+type BenchMode = 'string' | 'stream';
+
+interface BenchResult {
+  mode: BenchMode;
+  keepRows: boolean;
+  rows: number;
+  seconds: number;
+  // Peak growth of the live (after GC) JS heap over the heap before parsing, in MB
+  peakHeapMb: number;
+  // Peak resident set size of the process, in MB
+  peakRssMb: number;
+}
+
+const DEFAULT_ROWS = 200_000;
+
+// The streaming path samples the live heap every time this many characters have been parsed
+const SAMPLE_CHARS = 8 * 1024 * 1024;
+
+const SAMPLE_VALUES: Record<ColumnType, (index: number) => string> = {
+  text: () => 'PIEZA METALICA',
+  integer: (index) => String(index % 1000),
+  decimal: (index) => (index * 1.37).toFixed(2),
+  datetime: () => '2025-03-14 00:00:00',
+  rfc: () => 'AAA010101AAA',
+  fraccion: () => '84713001'
+};
+
+/**
+ * Build a 551 ASC file (header, rows and the Data Stage trailing pipes)
+ */
+function buildPartidaFile(rowCount: number): string {
+  const columns = getSectionSchema('551')?.columns || [];
+  const lines = [columns.map(column => column.name).join('|') + '|'];
+  for (let index = 0; index < rowCount; index++) {
+    const fields = columns.map(column => {
+      switch (column.name) {
+        case 'Patente': return '3420';
+        case 'Pedimento': return String(5000000 + Math.floor(index / 10));
+        case 'SeccionAduanera': return '470';
+        case 'SecuenciaFraccion': return String(index % 10 + 1);
+        default: return SAMPLE_VALUES[column.type](index);
+      }
+    });
+    lines.push(fields.join('|') + '|');
+  }
+  return lines.join('\r\n');
+}
+
+/**
+ * Live heap size: garbage is collected first (the child runs with --expose-gc) so only
+ * what is still referenced counts
+ */
+function liveHeap(): number {
+  (globalThis as { gc?: () => void }).gc?.();
+  return process.memoryUsage().heapUsed;
+}
+
+/**
+ * Count the rows parsed so far and drop them from the section map
+ */
+function dropRows(sectionMap: Map<string, unknown[]>): number {
+  let dropped = 0;
+  for (const rows of sectionMap.values()) {
+    dropped += rows.length;
+    rows.length = 0;
+  }
+  return dropped;
+}
+
+/**
+ * Parse the ZIP with one of the extraction paths and measure it; without keepRows the
+ * typed rows are dropped as soon as they are parsed, so only the raw text is retained
+ */
+async function runMode(mode: BenchMode, keepRows: boolean, zipPath: string): Promise<BenchResult> {
+  const input = new Uint8Array(readFileSync(zipPath));
+  const zipOptions: ZipHandlerOptions = {
+    onProgress: () => {},
+    onError: (error) => { throw new Error(error); },
+    onInfo: () => {}
+  };
+
+  const baseline = liveHeap();
+  let peakHeap = 0;
+  const sample = () => {
+    peakHeap = Math.max(peakHeap, liveHeap() - baseline);
+  };
+
+  const start = performance.now();
+  let parsed: ParsedData;
+  let droppedRows = 0;
+  if (mode === 'string') {
+    // The whole text is held until every file is parsed: sample once it is extracted and once parsed
+    const fileContents = await extractAscFromZip(input, zipOptions);
+    sample();
+    parsed = parseAscFilesFromFolders(groupFilesByFolder(fileContents));
+    if (!keepRows) droppedRows = dropRows(parsed.sectionMap);
+    sample();
+    fileContents.clear();
+  } else {
+    const parser = createAscParser();
+    // finish() hands out the live section map, so the rows can be dropped while parsing
+    const sectionMap = parser.finish().sectionMap;
+    let unsampled = 0;
+    await streamAscFromZip(input, {
+      ...zipOptions,
+      openFile: (path) => {
+        const sink = parser.openFile(path);
+        return {
+          ...sink,
+          write: (chunk) => {
+            sink.write(chunk);
+            if (!keepRows) droppedRows += dropRows(sectionMap);
+            unsampled += chunk.length;
+            if (unsampled >= SAMPLE_CHARS) {
+              unsampled = 0;
+              sample();
+            }
+          }
+        };
+      }
+    });
+    parsed = parser.finish();
+    if (!keepRows) droppedRows += dropRows(parsed.sectionMap);
+    sample();
+  }
+  const seconds = (performance.now() - start) / 1000;
+
+  let rows = droppedRows;
+  for (const sectionRows of parsed.sectionMap.values()) rows += sectionRows.length;
+
+  return {
+    mode, keepRows, rows, seconds,
+    peakHeapMb: peakHeap / 1024 / 1024,
+    peakRssMb: process.resourceUsage().maxRSS / 1024
+  };
+}
+
+async function main(): Promise<number> {
+  const argv = process.argv.slice(2);
+  if (argv.includes('-h') || argv.includes('--help')) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // Child process: measure one mode and report it as JSON
+  if (argv[0] === '--mode') {
+    console.log(JSON.stringify(await runMode(argv[1] as BenchMode, argv[2] === 'rows', argv[3])));
+    return 0;
+  }
+
+  const rowCount = argv[0] ? Number(argv[0]) : DEFAULT_ROWS;
+  if (!Number.isInteger(rowCount) || rowCount <= 0) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const workDir = mkdtempSync(join(tmpdir(), 'datastage-bench-'));
+  try {
+    console.log(`Generating a 551 file with ${rowCount} rows...`);
+    const content = buildPartidaFile(rowCount);
+    const textMb = Buffer.byteLength(content) / 1024 / 1024;
+    const zip = new JSZip();
+    zip.file('3420_551.asc', content);
+    const zipPath = join(workDir, 'bench.zip');
+    writeFileSync(zipPath, await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' }));
+    console.log(`ASC text: ${textMb.toFixed(1)} MB\n`);
+
+    console.log('mode   rows        rows/s      MB/s    time (s)  live heap (MB)  peak RSS (MB)');
+    for (const keepRows of [true, false]) {
+      for (const mode of ['string', 'stream'] as BenchMode[]) {
+        const child = spawnSync(process.execPath, [
+          '--expose-gc', fileURLToPath(import.meta.url), '--mode', mode, keepRows ? 'rows' : 'no-rows', zipPath
+        ], { encoding: 'utf-8' });
+        if (child.status !== 0) {
+          console.error(`${mode}: failed\n${child.stderr}`);
+          return 1;
+        }
+        const result: BenchResult = JSON.parse(child.stdout.trim().split('\n').pop() || '{}');
+        console.log([
+          mode.padEnd(6),
+          (keepRows ? 'kept' : 'dropped').padEnd(7),
+          Math.round(result.rows / result.seconds).toString().padStart(10),
+          (textMb / result.seconds).toFixed(1).padStart(9),
+          result.seconds.toFixed(2).padStart(11),
+          result.peakHeapMb.toFixed(0).padStart(15),
+          result.peakRssMb.toFixed(0).padStart(14)
+        ].join(' '));
+      }
+    }
+    return 0;
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,337 @@
+#!/usr/bin/env node
+import { readFile } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { convertDataStage } from './index';
+import { formatSectionChanges } from '../utils/diff';
+import { formatDuplicates, formatTableSplit, outputBaseName } from '../utils/pipeline';
+import { DEDUP_POLICY_LABELS, DedupPolicy } from '../utils/dedup';
+import { UPDATE_POLICY_LABELS, UpdatePolicy } from '../utils/workbookUpdate';
+import { QUALITY_RULES, QualityRuleSettings, RULE_SEVERITY_LABELS, RuleSeverity } from '../utils/qualityRules';
+import { ChildAggregation, DEFAULT_CONSOLIDATION } from '../utils/consolidate';
+import { countDiagnostics, formatDiagnostic } from '../utils/diagnostics';
+import { loadSectionCatalog, SectionCatalog, SHEET_LANGUAGE_LABELS, SheetLanguage } from '../utils/sectionCatalog';
+import { ENCODING_OPTION_LABELS, EncodingOption } from '../utils/encoding';
+import { isValidKeyFormat, KEY_COMPONENTS, KEY_FORMATS } from '../utils/pedimentoKey';
+import type { ExtractionLimits } from '../utils/zipHandler';
+import { CSV_DELIMITER_LABELS, DEFAULT_OUTPUT_FORMAT, OUTPUT_WRITERS, OutputFormat, outputFileName } from '../utils/output';
+
+const USAGE = `Usage: datastage-excel convert <input...> [-o <output.xlsx>]
+
+Commands:
+  convert     Convert SAT Data Stage ZIPs into an Excel workbook. Inputs can be
+              archives (ZIP, TAR, .tar.gz/.tgz, .zip.gz; nested archives are
+              extracted too), loose .asc files or folders (searched recursively);
+              several inputs are merged into one workbook with an Origen column.
+              With a workbook of a previous run (.xlsx) among the inputs, the new
+              rows are added to its sheets (written to <name>_actualizado.xlsx).
+              With --compare, two extractions (the previous one first) are
+              compared instead, listing the rows added, removed and changed
+
+Options:
+  -o, --output  Path of the generated file (default: next to the first input)
+  -v, --verbose Print extraction details and every diagnostic while converting
+  --no-validation-sheet  Don't add the "Validación" sheet to the workbook
+  --no-index-sheet       Don't add the "Índice" sheet linking to every sheet
+  --consolidated         Add pedimento (501) and partida (551) consolidated sheets
+  --aggregation <mode>   How one-to-many children are combined in consolidated
+                         sheets: auto, sum, concat, first or count
+  --current-state        Keep only the latest effective version of rectified
+                         pedimentos (701) and add the rectification history sheet
+  --contributions        Add the contributions summary (510 by month, patente and
+                         aduana) and the 510 vs 557 reconciliation sheets
+  --immex                Add the IMMEX control sheets (Anexo 24 style temporary
+                         imports, returns and changes of regime from 551, and
+                         the balance pending return per fracción)
+  --quality-rules        Check RFC, fracción, patente and pedimento formats, date
+                         ranges, non-negative amounts, ValorAduana vs
+                         ValorComercial and the 551→501 and 557→551 references,
+                         and add the "Reglas de calidad" sheet
+  --rule <id>=<severity> Change the severity of a quality rule (error, warning,
+                         info or off; implies --quality-rules); can be repeated.
+                         Rules: ${QUALITY_RULES.map(rule => rule.id).join(', ')}
+  --compare              Compare two extractions of the same period (the previous
+                         one first) per section instead of converting them
+  --dedup <policy>       Rows repeating the key of their table (overlapping
+                         deliveries): none (default), first, latest
+                         (most recent FechaPagoReal) or flag (Duplicado column)
+  --update-policy <policy>  Pedimentos already in the .xlsx being updated: skip
+                         (default, keep the workbook's rows) or replace (take the
+                         new drop's rows)
+  --catalog <file.json>  Section catalog overriding the bundled one (names, sheet
+                         order, level, include flag per section code)
+  --sheet-language <lang>  Language of the section sheet names: es (default) or en
+  --format <format>      Output format: xlsx (default), xlsx-zip (several
+                         workbooks when a table exceeds Excel's row limit), csv,
+                         ndjson or parquet (a ZIP with one file per table) or sqlite
+                         Tables over Excel's row limit continue on extra sheets
+  --delimiter <char>     Field delimiter of the CSV files: "," (default), ";",
+                         "|" or tab
+  --encoding <encoding>  Character encoding of the ASC files: auto (default,
+                         detected per file), utf-8 or windows-1252 (Latin-1)
+  --max-depth <n>        Skip archives nested more than n levels deep (default: 10)
+  --max-size <MB>        Stop when the extracted data exceeds this size (default:
+                         2048, a safeguard against zip bombs)
+  --max-files <n>        Stop when the archives hold more than n files (default: 100000)
+  --key-format <format>  No_Pedimento format: estandar, seccion, compacto, espacios
+                         or a template such as "{anio}{aduana}-{patente}-{consecutivo}"
+  -h, --help    Show this help`;
+
+const AGGREGATIONS: ChildAggregation[] = ['auto', 'sum', 'concat', 'first', 'count'];
+
+interface CliArgs {
+  command?: string;
+  inputs: string[];
+  output?: string;
+  verbose: boolean;
+  validationSheet: boolean;
+  indexSheet: boolean;
+  consolidated: boolean;
+  aggregation?: ChildAggregation;
+  dedup?: DedupPolicy;
+  updatePolicy?: UpdatePolicy;
+  currentState: boolean;
+  contributions: boolean;
+  immex: boolean;
+  compare: boolean;
+  qualityRules: boolean;
+  rules: string[];
+  keyFormat?: string;
+  encoding?: EncodingOption;
+  catalog?: string;
+  sheetLanguage?: SheetLanguage;
+  format?: OutputFormat;
+  delimiter?: string;
+  maxDepth?: string;
+  maxSize?: string;
+  maxFiles?: string;
+  help: boolean;
+}
+
+/**
+ * Parse command line arguments (no external dependencies needed)
+ */
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { inputs: [], verbose: false, validationSheet: true, indexSheet: true, consolidated: false, currentState: false, contributions: false, immex: false, compare: false, qualityRules: false, rules: [], help: false };
+  const positional: string[] = [];
+  
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      args.help = true;
+    } else if (arg === '-v' || arg === '--verbose') {
+      args.verbose = true;
+    } else if (arg === '--no-validation-sheet') {
+      args.validationSheet = false;
+    } else if (arg === '--no-index-sheet') {
+      args.indexSheet = false;
+    } else if (arg === '--consolidated') {
+      args.consolidated = true;
+    } else if (arg === '--aggregation') {
+      args.aggregation = argv[++i] as ChildAggregation;
+    } else if (arg === '--current-state') {
+      args.currentState = true;
+    } else if (arg === '--contributions') {
+      args.contributions = true;
+    } else if (arg === '--immex') {
+      args.immex = true;
+    } else if (arg === '--quality-rules') {
+      args.qualityRules = true;
+    } else if (arg === '--rule') {
+      args.rules.push(argv[++i]);
+    } else if (arg === '--compare') {
+      args.compare = true;
+    } else if (arg === '--dedup') {
+      args.dedup = argv[++i] as DedupPolicy;
+    } else if (arg === '--update-policy') {
+      args.updatePolicy = argv[++i] as UpdatePolicy;
+    } else if (arg === '--catalog') {
+      args.catalog = argv[++i];
+    } else if (arg === '--sheet-language') {
+      args.sheetLanguage = argv[++i] as SheetLanguage;
+    } else if (arg === '--format') {
+      args.format = argv[++i] as OutputFormat;
+    } else if (arg === '--delimiter') {
+      const delimiter = argv[++i];
+      args.delimiter = delimiter === 'tab' ? '\t' : delimiter;
+    } else if (arg === '--encoding') {
+      args.encoding = argv[++i] as EncodingOption;
+    } else if (arg === '--max-depth') {
+      args.maxDepth = argv[++i];
+    } else if (arg === '--max-size') {
+      args.maxSize = argv[++i];
+    } else if (arg === '--max-files') {
+      args.maxFiles = argv[++i];
+    } else if (arg === '--key-format') {
+      args.keyFormat = argv[++i];
+    } else if (arg === '-o' || arg === '--output') {
+      args.output = argv[++i];
+    } else if (arg.startsWith('--output=')) {
+      args.output = arg.slice('--output='.length);
+    } else {
+      positional.push(arg);
+    }
+  }
+  
+  [args.command, ...args.inputs] = positional;
+  return args;
+}
+
+/**
+ * Default output path: next to the first input, named like the file the web app downloads
+ */
+function defaultOutputPath(inputs: string[], format: OutputFormat, compare: boolean): string {
+  const fileName = outputBaseName(inputs.map(input => basename(input)), compare);
+  return join(dirname(inputs[0]), outputFileName(fileName, format));
+}
+
+const main = async (): Promise<number> => {
+  const args = parseArgs(process.argv.slice(2));
+  
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  
+  if (args.command !== 'convert' || args.inputs.length === 0) {
+    console.error(USAGE);
+    return 2;
+  }
+  
+  if (args.compare && args.inputs.length !== 2) {
+    console.error('--compare needs exactly two inputs: the previous extraction and the new one');
+    return 2;
+  }
+  
+  if (args.aggregation && !AGGREGATIONS.includes(args.aggregation)) {
+    console.error(`Unknown aggregation "${args.aggregation}". Use one of: ${AGGREGATIONS.join(', ')}`);
+    return 2;
+  }
+  
+  if (args.dedup && !Object.hasOwn(DEDUP_POLICY_LABELS, args.dedup)) {
+    console.error(`Unknown dedup policy "${args.dedup}". Use one of: ${Object.keys(DEDUP_POLICY_LABELS).join(', ')}`);
+    return 2;
+  }
+  
+  if (args.updatePolicy && !Object.hasOwn(UPDATE_POLICY_LABELS, args.updatePolicy)) {
+    console.error(`Unknown update policy "${args.updatePolicy}". Use one of: ${Object.keys(UPDATE_POLICY_LABELS).join(', ')}`);
+    return 2;
+  }
+  
+  const ruleSettings: QualityRuleSettings = {};
+  for (const rule of args.rules) {
+    const [id, severity] = (rule || '').split('=');
+    if (!QUALITY_RULES.some(qualityRule => qualityRule.id === id) || !Object.hasOwn(RULE_SEVERITY_LABELS, severity)) {
+      console.error(`Invalid --rule "${rule}". Use <id>=<severity> with one of the rules ${QUALITY_RULES.map(qualityRule => qualityRule.id).join(', ')} and one of: ${Object.keys(RULE_SEVERITY_LABELS).join(', ')}`);
+      return 2;
+    }
+    ruleSettings[id] = severity as RuleSeverity;
+  }
+  
+  if (args.encoding && !Object.hasOwn(ENCODING_OPTION_LABELS, args.encoding)) {
+    console.error(`Unknown encoding "${args.encoding}". Use one of: ${Object.keys(ENCODING_OPTION_LABELS).join(', ')}`);
+    return 2;
+  }
+  
+  if (args.sheetLanguage && !Object.hasOwn(SHEET_LANGUAGE_LABELS, args.sheetLanguage)) {
+    console.error(`Unknown sheet language "${args.sheetLanguage}". Use one of: ${Object.keys(SHEET_LANGUAGE_LABELS).join(', ')}`);
+    return 2;
+  }
+  
+  if (args.format && !Object.hasOwn(OUTPUT_WRITERS, args.format)) {
+    console.error(`Unknown output format "${args.format}". Use one of: ${Object.keys(OUTPUT_WRITERS).join(', ')}`);
+    return 2;
+  }
+  
+  if (args.delimiter !== undefined && !Object.hasOwn(CSV_DELIMITER_LABELS, args.delimiter)) {
+    console.error(`Unknown CSV delimiter "${args.delimiter}". Use one of: , ; | tab`);
+    return 2;
+  }
+  
+  if (args.keyFormat !== undefined && !isValidKeyFormat(args.keyFormat)) {
+    console.error(`Invalid key format "${args.keyFormat}". Use one of: ${Object.keys(KEY_FORMATS).join(', ')}, or a template with ${KEY_COMPONENTS.map(name => `{${name}}`).join(', ')}`);
+    return 2;
+  }
+  
+  const limitFlags = [['--max-depth', args.maxDepth], ['--max-size', args.maxSize], ['--max-files', args.maxFiles]];
+  for (const [flag, value] of limitFlags) {
+    if (value !== undefined && !/^\d+$/.test(value)) {
+      console.error(`Invalid ${flag} value "${value}". Use a whole number`);
+      return 2;
+    }
+  }
+  const extractionLimits: Partial<ExtractionLimits> = {};
+  if (args.maxDepth) extractionLimits.maxDepth = Number(args.maxDepth);
+  if (args.maxSize) extractionLimits.maxTotalBytes = Number(args.maxSize) * 1024 ** 2;
+  if (args.maxFiles) extractionLimits.maxEntries = Number(args.maxFiles);
+  
+  let sectionCatalog: SectionCatalog | undefined;
+  if (args.catalog) {
+    try {
+      sectionCatalog = loadSectionCatalog(await readFile(args.catalog, 'utf8'));
+    } catch (error) {
+      console.error(`Cannot load section catalog ${args.catalog}: ${error instanceof Error ? error.message : String(error)}`);
+      return 2;
+    }
+  }
+  
+  const format = args.format || DEFAULT_OUTPUT_FORMAT;
+  const output = args.output || defaultOutputPath(args.inputs, format, args.compare);
+  
+  try {
+    const result = await convertDataStage(args.inputs, output, {
+      validationSheet: args.validationSheet,
+      indexSheet: args.indexSheet,
+      keyFormat: args.keyFormat,
+      encoding: args.encoding,
+      extractionLimits,
+      dedup: args.dedup,
+      updatePolicy: args.updatePolicy,
+      currentState: args.currentState,
+      contributions: args.contributions,
+      immex: args.immex,
+      compare: args.compare,
+      qualityRules: (args.qualityRules || args.rules.length > 0) ? ruleSettings : undefined,
+      sectionCatalog,
+      sheetLanguage: args.sheetLanguage,
+      outputFormat: format,
+      csvDelimiter: args.delimiter,
+      consolidation: args.consolidated
+        ? { ...DEFAULT_CONSOLIDATION, aggregation: args.aggregation }
+        : undefined,
+      // Extraction details go to stderr so stdout only carries the summary
+      onInfo: (info) => {
+        if (args.verbose) console.error(info);
+      }
+    });
+    
+    if (result.changes) {
+      console.log(`Compared ${result.fileCount} ASC files into ${output}`);
+      result.changes.forEach(changes => console.log(`  ${formatSectionChanges(changes)}`));
+    } else {
+      console.log(`Converted ${result.fileCount} ASC files into ${output}`);
+      for (const section of result.sections) {
+        console.log(`  Sección ${section.code}: ${section.rows} filas${formatDuplicates(section.duplicates, args.dedup || 'none')}`);
+      }
+    }
+    for (const split of result.splits) {
+      console.log(`  ${formatTableSplit(split, format)}`);
+    }
+    
+    // Diagnostics go to stderr: a count by default, every entry with --verbose
+    const counts = countDiagnostics(result.diagnostics);
+    if (result.diagnostics.length > 0) {
+      console.error(`Validation: ${counts.error} errors, ${counts.warning} warnings, ${counts.info} notices`);
+    }
+    if (args.verbose) {
+      result.diagnostics.forEach(diagnostic => console.error(formatDiagnostic(diagnostic)));
+    }
+    return 0;
+  } catch (error) {
+    console.error('Error: ' + (error instanceof Error ? error.message : String(error)));
+    return 1;
+  }
+};
+
+main().then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,119 @@
+import { readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { basename, join, relative, sep } from 'node:path';
+import { isArchiveInput, PipelineInput, PipelineOptions, runPipeline, SectionSummary } from '../utils/pipeline';
+import type { Diagnostic } from '../utils/diagnostics';
+import type { TableSplit } from '../utils/excel';
+import type { SectionChanges } from '../utils/diff';
+
+export type { PipelineInput, SectionSummary };
+
+/**
+ * What can be converted: an archive/.asc path or a folder (searched recursively),
+ * raw ZIP bytes, or several of them merged into one workbook; an .xlsx path among
+ * them is a previous workbook to add the rows to
+ */
+export type ConvertInput = string | Uint8Array | Array<string | PipelineInput>;
+
+export interface ConvertOptions extends Omit<PipelineOptions, 'validationSheet' | 'indexSheet'> {
+  onProgress?: (percent: number) => void;
+  onInfo?: (info: string) => void;
+  // Append the "Validación" sheet with parse diagnostics (default: true)
+  validationSheet?: boolean;
+  // Put an "Índice" sheet linking to every sheet first (default: true)
+  indexSheet?: boolean;
+}
+
+export interface ConvertResult {
+  fileCount: number;
+  sections: SectionSummary[];
+  diagnostics: Diagnostic[];
+  buffer: Buffer;
+  // Tables split into several sheets or workbooks by the Excel row limit
+  splits: TableSplit[];
+  // Row counts per section when comparing two extractions (compare option)
+  changes?: SectionChanges[];
+}
+
+/**
+ * Whether a file can be an input (a Data Stage archive or a loose .asc file)
+ */
+function isInputFile(path: string): boolean {
+  return isArchiveInput(path) || path.toLowerCase().endsWith('.asc');
+}
+
+/**
+ * Read a path into pipeline inputs; folders are searched recursively and their
+ * files are named relative to the folder's parent (e.g. "2025/enero.zip")
+ */
+async function readInputPath(path: string): Promise<PipelineInput[]> {
+  if (!(await stat(path)).isDirectory()) {
+    return [{ name: basename(path), data: await readFile(path) }];
+  }
+
+  const entries = await readdir(path, { recursive: true, withFileTypes: true });
+  const files = entries
+    .filter(entry => entry.isFile() && isInputFile(entry.name))
+    // parentPath is Node 20.12+; Node 18 only has the (later deprecated) path
+    .map(entry => join(entry.parentPath ?? entry.path, entry.name))
+    .sort();
+
+  const parent = join(path, '..');
+  const inputs: PipelineInput[] = [];
+  for (const file of files) {
+    inputs.push({ name: relative(parent, file).split(sep).join('/'), data: await readFile(file) });
+  }
+  return inputs;
+}
+
+/**
+ * Resolve the convert input into the list of pipeline inputs
+ */
+async function resolveInputs(input: ConvertInput): Promise<PipelineInput[]> {
+  if (input instanceof Uint8Array) {
+    return [{ name: 'datastage.zip', data: input }];
+  }
+
+  const inputs: PipelineInput[] = [];
+  for (const item of typeof input === 'string' ? [input] : input) {
+    inputs.push(...(typeof item === 'string' ? await readInputPath(item) : [item]));
+  }
+  return inputs;
+}
+
+/**
+ * Convert Data Stage ZIPs or .asc files (paths on disk or raw bytes) into an XLSX buffer
+ * (or the bytes of the chosen outputFormat)
+ * Uses the same extraction, parsing and workbook logic as the web app
+ */
+export const convertDataStageToBuffer = async (
+  input: ConvertInput,
+  options: ConvertOptions = {}
+): Promise<ConvertResult> => {
+  const { onProgress, onInfo, validationSheet = true, indexSheet = true, ...pipelineOptions } = options;
+  const inputs = await resolveInputs(input);
+  if (inputs.length === 0) {
+    throw new Error('No se encontraron archivos comprimidos (ZIP, TAR, GZ) o ASC en la entrada');
+  }
+  
+  const { output, diagnostics, sections, fileCount, changes } = await runPipeline(
+    inputs,
+    { ...pipelineOptions, validationSheet, indexSheet },
+    { onProgress, onDebug: onInfo }
+  );
+  const buffer = Buffer.from(output.data.buffer, output.data.byteOffset, output.data.byteLength);
+  
+  return { fileCount, sections, diagnostics, buffer, splits: output.splits, changes };
+};
+
+/**
+ * Convert Data Stage ZIPs or .asc files and write the resulting file to disk
+ */
+export const convertDataStage = async (
+  input: ConvertInput,
+  outputPath: string,
+  options: ConvertOptions = {}
+): Promise<ConvertResult> => {
+  const result = await convertDataStageToBuffer(input, options);
+  await writeFile(outputPath, result.buffer);
+  return result;
+};
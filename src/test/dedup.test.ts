@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import type { AscRow } from '../utils/parser';
+import { dedupSections } from '../utils/dedup';
+
+function pedimento(consecutivo: string, origen: string): AscRow {
+  return {
+    No_Pedimento: `25-47-3420-${consecutivo}`, Patente: '3420', Pedimento: consecutivo, SeccionAduanera: '470', Origen: origen
+  };
+}
+
+describe('dedupSections', () => {
+  it('flags the repeated rows in a Duplicado column right after No_Pedimento', () => {
+    const { sectionMap, duplicates } = dedupSections(new Map([
+      ['501', [pedimento('5000001', 'a.asc'), pedimento('5000002', 'a.asc'), pedimento('5000001', 'b.asc')]]
+    ]), 'flag');
+
+    const rows = sectionMap.get('501') || [];
+    expect(Object.keys(rows[0])).toEqual(['No_Pedimento', 'Duplicado', 'Patente', 'Pedimento', 'SeccionAduanera', 'Origen']);
+    expect(rows.map(row => row.Duplicado)).toEqual(['1 de 2', '', '2 de 2']);
+    expect(duplicates.get('501')).toBe(1);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { outputBaseName, runPipeline } from '../utils/pipeline';
+import { diffSections } from '../utils/diff';
+import { parseAscFiles } from '../utils/parser';
+import { loadSectionCatalog } from '../utils/sectionCatalog';
+import { ascFile, FILE_501, FILE_551, HEADERS_501, HEADERS_551, makeZip, ROWS_551 } from './fixtures';
+
+// Resend: 5001234 with another exchange rate, 5001235 dropped, 5001236 added, and one partida less
+const RESEND_501 = ascFile(HEADERS_501, [
+  ['3420', '5001234', '470', '1', 'A1', 'AAA010101AAA', '17.9000', '2025-01-10 00:00:00'],
+  ['3420', '5001236', '470', '1', 'A1', 'CCC030303CCC', '18.1000', '2025-03-12 00:00:00']
+]);
+const RESEND_551 = ascFile(HEADERS_551, ROWS_551.slice(0, 1));
+
+const before = parseAscFiles(new Map([['3420_501.asc', FILE_501], ['3420_551.asc', FILE_551]])).sectionMap;
+const after = parseAscFiles(new Map([['3420_501.asc', RESEND_501], ['3420_551.asc', RESEND_551]])).sectionMap;
+
+describe('diffSections', () => {
+  const { tables, changes } = diffSections(before, after);
+
+  it('counts the added, removed and changed rows per section', () => {
+    expect(changes).toEqual([
+      { code: '501', before: 2, after: 2, added: 1, removed: 1, changed: 1 },
+      { code: '551', before: 2, after: 1, added: 0, removed: 1, changed: 0 }
+    ]);
+    expect(tables[0].rows).toEqual([
+      ['501 Datos generales', 2, 2, 1, 1, 1, 0],
+      ['551 Partidas', 2, 1, 0, 1, 0, 1]
+    ]);
+  });
+
+  it('lists the changed fields with the old and new values side by side', () => {
+    const table = tables[1];
+    const column = (name: string) => table.headers.indexOf(name);
+
+    expect(table.name).toBe('Cambios 501 Datos generales');
+    expect(table.rows.map(row => [row[0], row[1], row[2]])).toEqual([
+      ['Modificada', '25-47-3420-5001234', 'TipoCambio'],
+      ['Agregada', '25-47-3420-5001236', ''],
+      ['Eliminada', '25-24-3420-5001235', '']
+    ]);
+    expect([table.rows[0][column('TipoCambio (anterior)')], table.rows[0][column('TipoCambio (nuevo)')]]).toEqual([17.25, 17.9]);
+    expect(tables[2].rows.map(row => [row[0], row[1]])).toEqual([['Eliminada', '25-47-3420-5001234-2']]);
+  });
+
+  it('matches the rows of sections the catalog declares at partida level on their partida', () => {
+    const sectionCatalog = loadSectionCatalog('[{ "code": "599", "level": "partida" }]');
+    const headers = ['Patente', 'Pedimento', 'SeccionAduanera', 'SecuenciaFraccion', 'Nota'];
+    const parse = (rows: string[][]) =>
+      parseAscFiles(new Map([['3420_599.asc', ascFile(headers, rows)]]), { sectionCatalog }).sectionMap;
+
+    const result = diffSections(
+      parse([['3420', '5001234', '470', '1', 'a'], ['3420', '5001234', '470', '2', 'b']]),
+      parse([['3420', '5001234', '470', '2', 'b'], ['3420', '5001234', '470', '1', 'a']]),
+      { sectionCatalog }
+    );
+    expect(result.changes).toEqual([{ code: '599', before: 2, after: 2, added: 0, removed: 0, changed: 0 }]);
+  });
+
+  it('reports nothing for identical extractions', () => {
+    const result = diffSections(before, before);
+
+    expect(result.tables).toHaveLength(1);
+    expect(result.changes.every(section => section.added + section.removed + section.changed === 0)).toBe(true);
+  });
+});
+
+describe('comparing two extractions', () => {
+  it('writes the summary and the per-section change sheets', async () => {
+    const result = await runPipeline(
+      [
+        { name: 'marzo.zip', data: await makeZip({ '3420_501.asc': FILE_501, '3420_551.asc': FILE_551 }) },
+        { name: 'marzo-reenvio.zip', data: await makeZip({ '3420_501.asc': RESEND_501, '3420_551.asc': RESEND_551 }) }
+      ],
+      { compare: true }
+    );
+
+    const workbook = XLSX.read(result.output.data, { type: 'array' });
+    expect(workbook.SheetNames).toEqual(['Resumen de cambios', 'Cambios 501 Datos generales', 'Cambios 551 Partidas']);
+    expect(result.changes?.map(section => section.code)).toEqual(['501', '551']);
+    expect(result.fileCount).toBe(4);
+  });
+
+  it('needs exactly two extractions', async () => {
+    await expect(runPipeline([{ name: 'a.zip', data: await makeZip({ '3420_501.asc': FILE_501 }) }], { compare: true }))
+      .rejects.toThrow(/exactamente dos extracciones/);
+  });
+
+  it('names the output after both extractions', () => {
+    expect(outputBaseName(['marzo.zip', 'marzo-reenvio.zip'], true)).toBe('Comparacion_marzo_vs_marzo-reenvio');
+  });
+});
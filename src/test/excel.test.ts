@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { parseAscFiles } from '../utils/parser';
+import { buildWorkbookFromTables, generateExcel } from '../utils/excel';
+import type { TableData } from '../utils/consolidate';
+import { FILE_501, FILE_510, FILE_551, HEADERS_501 } from './fixtures';
+
+/**
+ * Read a generated .xlsx back into a SheetJS workbook
+ */
+async function readBack(blob: Blob): Promise<XLSX.WorkBook> {
+  return XLSX.read(new Uint8Array(await blob.arrayBuffer()), { type: 'array' });
+}
+
+function headerRow(sheet: XLSX.WorkSheet): string[] {
+  return (XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1 })[0] || []);
+}
+
+describe('generateExcel', () => {
+  // Files in reverse order: the sheets still follow the section catalog
+  const parsed = parseAscFiles(new Map([
+    ['3420_551.asc', FILE_551],
+    ['3420_510.asc', FILE_510],
+    ['3420_501.asc', FILE_501]
+  ]));
+
+  it('writes one sheet per section in catalog order, plus Validación', async () => {
+    const workbook = await readBack(await generateExcel(parsed.sectionMap, { diagnostics: parsed.diagnostics }));
+
+    expect(workbook.SheetNames).toEqual([
+      '501 Datos generales',
+      '510 Contribuciones del pediment',
+      '551 Partidas',
+      'Validación'
+    ]);
+  });
+
+  it('writes the headers and typed cells of each section', async () => {
+    const workbook = await readBack(await generateExcel(parsed.sectionMap));
+    const sheet = workbook.Sheets['501 Datos generales'];
+
+    expect(headerRow(sheet)).toEqual(['No_Pedimento', ...HEADERS_501]);
+    expect(sheet['A2']).toMatchObject({ t: 's', v: '25-47-3420-5001234' });
+    // Patente stays text, TipoCambio is a number and FechaPagoReal a formatted date
+    expect(sheet['B2']).toMatchObject({ t: 's', v: '3420' });
+    expect(sheet['H2']).toMatchObject({ t: 'n', v: 17.25 });
+    expect(sheet['I2']).toMatchObject({ t: 'n', w: '2025-01-10 00:00:00' });
+
+    const partidas = workbook.Sheets['551 Partidas'];
+    const fraccion = headerRow(partidas).indexOf('Fraccion');
+    expect(partidas[XLSX.utils.encode_cell({ r: 1, c: fraccion })]).toMatchObject({ t: 's', v: '01012101' });
+  });
+
+  it('limits the sheets and columns to the review selection', async () => {
+    const workbook = await readBack(await generateExcel(parsed.sectionMap, {
+      selection: { '551': ['DescripcionMercancia', 'No_Partida'] }
+    }));
+
+    expect(workbook.SheetNames).toEqual(['551 Partidas']);
+    expect(headerRow(workbook.Sheets['551 Partidas'])).toEqual(['DescripcionMercancia', 'No_Partida']);
+  });
+
+  it('lists the diagnostics in the Validación sheet, most severe first', async () => {
+    const withError = parseAscFiles(new Map([['3420_501.asc', FILE_501], ['datos.asc', 'Patente|Pedimento|\n3420|1|\n']]));
+    const workbook = await readBack(await generateExcel(withError.sectionMap, { diagnostics: withError.diagnostics }));
+    const rows = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets['Validación'], { header: 1 });
+
+    expect(rows[0]).toEqual(['Severidad', 'Archivo', 'Línea', 'Sección', 'Columna', 'Mensaje']);
+    expect(rows[1].slice(0, 2)).toEqual(['Error', 'datos.asc']);
+  });
+});
+
+describe('buildWorkbookFromTables', () => {
+  it('continues tables over the row limit on sheets with the same headers', () => {
+    const table: TableData = {
+      name: '557 Contribuciones de la partida',
+      headers: ['Fila'],
+      columnTypes: ['integer'],
+      rows: [[1], [2], [3], [4], [5]]
+    };
+    const workbook = buildWorkbookFromTables([table], 2);
+
+    expect(workbook.SheetNames).toEqual([
+      '557 Contribuciones de la partid',
+      '557 Contribuciones de la pa (2)',
+      '557 Contribuciones de la pa (3)'
+    ]);
+    const lastSheet = XLSX.utils.sheet_to_json<number[]>(workbook.Sheets[workbook.SheetNames[2]], { header: 1 });
+    expect(lastSheet).toEqual([['Fila'], [5]]);
+  });
+});
@@ -0,0 +1,99 @@
+import JSZip from 'jszip';
+
+/**
+ * Synthetic Data Stage extracts for the tests, built in memory so no real
+ * (confidential) delivery has to be checked in
+ */
+
+/**
+ * ASC text: pipe-delimited header and rows, every line ending in the Data Stage trailing pipe
+ */
+export const ascFile = (headers: string[], rows: string[][]): string => {
+  return [headers, ...rows].map(fields => fields.join('|') + '|').join('\n') + '\n';
+};
+
+export const HEADERS_501 = ['Patente', 'Pedimento', 'SeccionAduanera', 'TipoOperacion', 'ClaveDocumento', 'Rfc', 'TipoCambio', 'FechaPagoReal'];
+export const ROWS_501 = [
+  ['3420', '5001234', '470', '1', 'A1', 'AAA010101AAA', '17.2500', '2025-01-10 00:00:00'],
+  ['3420', '5001235', '240', '2', 'V1', 'BBB020202BBB', '17.3000', '2025-02-11 00:00:00']
+];
+
+export const HEADERS_510 = ['Patente', 'Pedimento', 'SeccionAduanera', 'ClaveContribucion', 'FormaPago', 'ImportePago', 'TipoPedimento', 'FechaPagoReal'];
+export const ROWS_510 = [
+  ['3420', '5001234', '470', '1', '0', '400', 'A1', '2025-01-10 00:00:00'],
+  ['3420', '5001234', '470', '3', '0', '1600.50', 'A1', '2025-01-10 00:00:00']
+];
+
+export const HEADERS_551 = ['Patente', 'Pedimento', 'SeccionAduanera', 'Fraccion', 'SecuenciaFraccion', 'DescripcionMercancia', 'ValorDolares', 'FechaPagoReal'];
+export const ROWS_551 = [
+  ['3420', '5001234', '470', '01012101', '1', 'CABALLOS', '1200.5', '2025-01-10 00:00:00'],
+  ['3420', '5001234', '470', '84713001', '2', 'COMPUTADORAS', '880', '2025-01-10 00:00:00']
+];
+
+export const FILE_501 = ascFile(HEADERS_501, ROWS_501);
+export const FILE_510 = ascFile(HEADERS_510, ROWS_510);
+export const FILE_551 = ascFile(HEADERS_551, ROWS_551);
+
+/**
+ * ZIP archive with the given entries ("folder/file.asc" paths create folders)
+ */
+export const makeZip = async (
+  files: Record<string, string | Uint8Array>,
+  compression: 'STORE' | 'DEFLATE' = 'DEFLATE'
+): Promise<Uint8Array> => {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'uint8array', compression });
+};
+
+/**
+ * ZIP whose entries fail the CRC check: a byte of the stored data is changed
+ * after the archive (and its checksums) were written
+ */
+export const makeCorruptZip = async (files: Record<string, string>): Promise<Uint8Array> => {
+  const bytes = await makeZip(files, 'STORE');
+  const [content] = Object.values(files);
+  const marker = new TextEncoder().encode(content.slice(0, 16));
+  const offset = bytes.findIndex((_, index) => marker.every((byte, i) => bytes[index + i] === byte));
+  if (offset === -1) throw new Error('Entry data not found in the fixture ZIP');
+  bytes[offset] ^= 0x01;
+  return bytes;
+};
+
+/**
+ * Minimal ustar archive with the given regular files
+ */
+export const makeTar = (files: Record<string, string | Uint8Array>): Uint8Array => {
+  const encoder = new TextEncoder();
+  const blocks: Uint8Array[] = [];
+  for (const [path, content] of Object.entries(files)) {
+    const data = typeof content === 'string' ? encoder.encode(content) : content;
+    const header = new Uint8Array(512);
+    const put = (offset: number, value: string) => header.set(encoder.encode(value), offset);
+    put(0, path);
+    put(100, '0000644\0');
+    put(124, data.length.toString(8).padStart(11, '0') + '\0');
+    header[156] = '0'.charCodeAt(0);
+    put(257, 'ustar\x0000');
+    // Checksum of the header with the checksum field counted as spaces
+    put(148, ' '.repeat(8));
+    put(148, header.reduce((sum, byte) => sum + byte, 0).toString(8).padStart(6, '0') + '\0 ');
+    blocks.push(header, data, new Uint8Array((512 - data.length % 512) % 512));
+  }
+  // End of archive: two empty blocks
+  blocks.push(new Uint8Array(1024));
+
+  const tar = new Uint8Array(blocks.reduce((length, block) => length + block.length, 0));
+  blocks.reduce((offset, block) => {
+    tar.set(block, offset);
+    return offset + block.length;
+  }, 0);
+  return tar;
+};
+
+export const gzip = async (content: string | Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([content]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseAscFiles } from '../utils/parser';
+import { buildImmexReport } from '../utils/immex';
+import { ascFile, FILE_501, FILE_551 } from './fixtures';
+
+const HEADERS_501 = ['Patente', 'Pedimento', 'SeccionAduanera', 'TipoOperacion', 'ClaveDocumento', 'FechaPagoReal'];
+const HEADERS_551 = ['Patente', 'Pedimento', 'SeccionAduanera', 'Fraccion', 'SecuenciaFraccion', 'CantidadUMTarifa', 'UnidadMedidaTarifa', 'CantidadUMComercial', 'UnidadMedidaComercial'];
+
+// A temporary import (IN), a return (RT), a change of regime (F4) and a definitive import (A1)
+const parsed = parseAscFiles(new Map([
+  ['3420_501.asc', ascFile(HEADERS_501, [
+    ['3420', '6000001', '470', '1', 'IN', '2025-01-10 00:00:00'],
+    ['3420', '6000002', '470', '2', 'RT', '2025-03-01 00:00:00'],
+    ['3420', '6000003', '470', '1', 'F4', '2025-04-01 00:00:00'],
+    ['3420', '6000004', '470', '1', 'A1', '2025-02-01 00:00:00']
+  ])],
+  ['3420_551.asc', ascFile(HEADERS_551, [
+    ['3420', '6000003', '470', '85423901', '1', '60', '6', '60', '6'],
+    ['3420', '6000001', '470', '39269099', '1', '100', '6', '1000', '1'],
+    ['3420', '6000001', '470', '85423901', '2', '50', '6', '50', '6'],
+    ['3420', '6000002', '470', '39269099', '1', '30', '6', '300', '1'],
+    ['3420', '6000003', '470', '39269099', '2', '20', '6', '200', '1'],
+    ['3420', '6000004', '470', '39269099', '1', '999', '6', '999', '6']
+  ])],
+  ['3420_554.asc', ascFile(['Patente', 'Pedimento', 'SeccionAduanera', 'Fraccion', 'SecuenciaFraccion', 'ClaveCaso', 'IdentificadorCaso'], [
+    ['3420', '6000001', '470', '39269099', '1', 'IM', '1234-2006']
+  ])]
+]));
+
+describe('buildImmexReport', () => {
+  const report = buildImmexReport(parsed.sectionMap);
+
+  it('lists the IMMEX partidas in date order with their 501 clave and 554 cases', () => {
+    const headers = report?.movements.headers || [];
+    const rows = report?.movements.rows || [];
+    const column = (name: string) => headers.indexOf(name);
+
+    expect(rows.map(row => [row[0], row[column('ClaveDocumento')], row[column('Fraccion')], row[column('CantidadUMTarifa')]])).toEqual([
+      ['Importación temporal', 'IN', '39269099', 100],
+      ['Importación temporal', 'IN', '85423901', 50],
+      ['Retorno', 'RT', '39269099', 30],
+      ['Cambio de régimen', 'F4', '85423901', 60],
+      ['Cambio de régimen', 'F4', '39269099', 20]
+    ]);
+    expect(rows[0][column('Identificadores')]).toBe('IM 1234-2006');
+    expect(rows[0][column('FechaPagoReal')]).toEqual(new Date(2025, 0, 10));
+  });
+
+  it('balances the quantities pending return per fracción and warns on overdrawn ones', () => {
+    expect(report?.balance.rows).toEqual([
+      ['39269099', '6', 100, 30, 20, 50, 3],
+      ['85423901', '6', 50, 0, 60, -10, 2]
+    ]);
+    expect(report?.diagnostics).toEqual([
+      expect.objectContaining({ severity: 'warning', message: expect.stringMatching(/^Fracción 85423901: se descargaron 10 unidades/) })
+    ]);
+  });
+
+  it('returns null without IMMEX operations', () => {
+    expect(buildImmexReport(parseAscFiles(new Map([['3420_501.asc', FILE_501], ['3420_551.asc', FILE_551]])).sectionMap)).toBeNull();
+  });
+});
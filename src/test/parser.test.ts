@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { parseAscFiles, parseAscFilesFromFolders } from '../utils/parser';
+import { buildPartidaKey, buildPedimentoKey } from '../utils/pedimentoKey';
+import { loadSectionCatalog } from '../utils/sectionCatalog';
+import { ascFile, FILE_501, FILE_551, HEADERS_501, ROWS_501 } from './fixtures';
+
+describe('parseAscFiles', () => {
+  it('strips the trailing pipe and types the cells by the section schema', () => {
+    const { sectionMap, error } = parseAscFiles(new Map([['3420_501.asc', FILE_501]]));
+
+    expect(error).toBeUndefined();
+    const rows = sectionMap.get('501') || [];
+    expect(rows).toHaveLength(2);
+    expect(Object.keys(rows[0])).toEqual(['No_Pedimento', ...HEADERS_501]);
+    expect(rows[0]).toMatchObject({
+      No_Pedimento: '25-47-3420-5001234',
+      Patente: '3420',
+      Rfc: 'AAA010101AAA',
+      TipoCambio: 17.25,
+      FechaPagoReal: new Date(2025, 0, 10)
+    });
+  });
+
+  it('keeps the leading zeros of fracciones and adds the partida key', () => {
+    const { sectionMap } = parseAscFiles(new Map([['3420_551.asc', FILE_551]]));
+
+    const [first] = sectionMap.get('551') || [];
+    expect(first.Fraccion).toBe('01012101');
+    expect(first.SecuenciaFraccion).toBe(1);
+    expect(first.No_Partida).toBe('25-47-3420-5001234-1');
+  });
+
+  it('adds the partida key to sections the catalog declares at partida level', () => {
+    const sectionCatalog = loadSectionCatalog('[{ "code": "599", "level": "partida" }]');
+    const file = ascFile(['Patente', 'Pedimento', 'SeccionAduanera', 'SecuenciaFraccion', 'FechaPagoReal'], [
+      ['3420', '5001234', '470', '2', '2025-01-10 00:00:00']
+    ]);
+    const { sectionMap } = parseAscFiles(new Map([['3420_599.asc', file]]), { sectionCatalog });
+
+    expect(sectionMap.get('599')?.[0].No_Partida).toBe('25-47-3420-5001234-2');
+  });
+
+  it('keeps impossible dates and dates with trailing text as text and reports them', () => {
+    const rows = ['2024-02-30 00:00:00', '2024-13-01', '2025-01-10 00:00:00 hrs'].map(fecha => [...ROWS_501[0].slice(0, -1), fecha]);
+    const { sectionMap, diagnostics } = parseAscFiles(new Map([['3420_501.asc', ascFile(HEADERS_501, rows)]]));
+
+    expect(sectionMap.get('501')?.map(row => row.FechaPagoReal)).toEqual(['2024-02-30 00:00:00', '2024-13-01', '2025-01-10 00:00:00 hrs']);
+    expect(diagnostics.filter(diagnostic => diagnostic.column === 'FechaPagoReal')).toHaveLength(3);
+  });
+
+  it('reads CRLF line endings and the section from a column when the file name has none', () => {
+    const text = ascFile(['Seccion', ...HEADERS_501], ROWS_501.map(row => ['501', ...row])).replace(/\n/g, '\r\n');
+    const { sectionMap } = parseAscFiles(new Map([['datos.asc', text]]));
+
+    const rows = sectionMap.get('501') || [];
+    expect(rows).toHaveLength(2);
+    expect(rows[1].FechaPagoReal).toEqual(new Date(2025, 1, 11));
+  });
+
+  it('reports files without a section column or code and skips their rows', () => {
+    const text = ascFile(['Patente', 'Pedimento', 'TipoOperacion'], [['3420', '5001234', '1'], ['3420', '5001235', '2']]);
+    const { sectionMap, diagnostics, error } = parseAscFiles(new Map([['datos.asc', text]]));
+
+    expect(sectionMap.size).toBe(0);
+    expect(error).toBeDefined();
+    expect(diagnostics).toContainEqual(expect.objectContaining({
+      severity: 'error', file: 'datos.asc',
+      message: expect.stringContaining('se omitieron 2 filas')
+    }));
+  });
+
+  it('reports empty files and files with only a header', () => {
+    const { sectionMap, diagnostics } = parseAscFiles(new Map([
+      ['3420_501.asc', FILE_501],
+      ['3420_510.asc', ''],
+      ['3420_551.asc', ascFile(['Patente', 'Pedimento'], [])]
+    ]));
+
+    expect(diagnostics).toContainEqual(expect.objectContaining({ file: '3420_510.asc', message: 'El archivo está vacío; se omitió' }));
+    expect(diagnostics).toContainEqual(expect.objectContaining({ severity: 'info', file: '3420_551.asc', section: '551' }));
+    // A known section without rows still gets its (empty) sheet
+    expect(sectionMap.get('551')).toEqual([]);
+  });
+
+  it('reports rows with a different number of fields', () => {
+    const text = FILE_501 + '3420|5001236|470|\n';
+    const { sectionMap, diagnostics } = parseAscFiles(new Map([['3420_501.asc', text]]));
+
+    expect(sectionMap.get('501')).toHaveLength(3);
+    expect(diagnostics).toContainEqual(expect.objectContaining({
+      severity: 'warning', line: 4, message: expect.stringContaining('Fila mal formada')
+    }));
+  });
+});
+
+describe('parseAscFilesFromFolders', () => {
+  it('merges the folders and writes the folder to the Origen column', () => {
+    const { sectionMap } = parseAscFilesFromFolders(new Map([
+      ['enero', new Map([['3420_501.asc', ascFile(HEADERS_501, [ROWS_501[0]])]])],
+      ['febrero', new Map([['3420_501.asc', ascFile(HEADERS_501, [ROWS_501[1]])]])]
+    ]));
+
+    expect((sectionMap.get('501') || []).map(row => row.Origen)).toEqual(['enero', 'febrero']);
+  });
+});
+
+describe('buildPedimentoKey', () => {
+  const row = { Patente: '3420', Pedimento: '5001234', SeccionAduanera: '470', FechaPagoReal: '2025-01-10 00:00:00' };
+
+  it('builds the standard pedimento number and the named formats', () => {
+    expect(buildPedimentoKey(row).key).toBe('25-47-3420-5001234');
+    expect(buildPedimentoKey(row, 'seccion').key).toBe('25-470-3420-5001234');
+    expect(buildPedimentoKey(row, 'compacto').key).toBe('254734205001234');
+    expect(buildPedimentoKey(row, '{patente}/{consecutivo}').key).toBe('3420/5001234');
+  });
+
+  it('rejects unknown named formats, inherited property names and unknown placeholders', () => {
+    expect(() => buildPedimentoKey(row, 'estandr')).toThrow(/Formato de No_Pedimento no válido: "estandr"/);
+    expect(() => buildPedimentoKey(row, 'constructor')).toThrow(/no válido: "constructor"/);
+    expect(() => buildPedimentoKey(row, '{anio}-{aduana}-{numero}')).toThrow(/no válido: "\{anio\}-\{aduana\}-\{numero\}"/);
+    // The parser rejects the format before reading any file
+    expect(() => parseAscFiles(new Map([['3420_501.asc', FILE_501]]), { keyFormat: 'constructor' })).toThrow(/no válido/);
+  });
+
+  it('marks missing components instead of building a colliding key', () => {
+    const result = buildPedimentoKey({ ...row, FechaPagoReal: '' });
+    expect(result.key).toBe('?-47-3420-5001234');
+    expect(result.missing).toEqual(['anio']);
+    expect(buildPartidaKey({}, result.key)).toEqual({ key: '?-47-3420-5001234-?', missing: ['secuencia'] });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import * as XLSX from 'xlsx';
+import { runPipeline } from '../utils/pipeline';
+import { ascFile, FILE_501, FILE_510, FILE_551, gzip, HEADERS_501, makeTar, makeZip, ROWS_501 } from './fixtures';
+
+describe('runPipeline', () => {
+  it('merges ZIPs and loose .asc files into one workbook with the Origen column', async () => {
+    const enero = await makeZip({ '3420_501.asc': FILE_501, 'detalle/3420_551.asc': FILE_551 });
+    const result = await runPipeline([
+      { name: 'enero.zip', data: enero },
+      { name: 'sueltos/3420_510.asc', data: new TextEncoder().encode(FILE_510) }
+    ]);
+
+    expect(result.fileCount).toBe(3);
+    expect(result.sections.map(section => section.code)).toEqual(['501', '510', '551']);
+    expect(result.output).toMatchObject({ format: 'xlsx', extension: 'xlsx' });
+
+    const workbook = XLSX.read(result.output.data, { type: 'array' });
+    expect(workbook.SheetNames).toEqual(['501 Datos generales', '510 Contribuciones del pediment', '551 Partidas']);
+    const contribuciones = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets['510 Contribuciones del pediment']);
+    expect(contribuciones.map(row => [row.Origen, row.ImportePago])).toEqual([['sueltos', 400], ['sueltos', 1600.5]]);    // Entries in folders of an archive are named after their folder
+    expect(result.sectionMap.get('551')?.[0].Origen).toBe('enero.zip/detalle');
+  });
+
+  it('names the Origen of rows from nested archives after their full path', async () => {
+    const delivery = await gzip(makeTar({ '2024/01.zip': await makeZip({ '3420_501.asc': FILE_501 }) }));
+    const result = await runPipeline([{ name: 'entrega.tar.gz', data: delivery }]);
+
+    expect(result.sectionMap.get('501')?.[0].Origen).toBe('entrega.tar.gz/2024/01');
+  });
+
+  it('fails when no input contains ASC files', async () => {
+    const empty = await makeZip({ 'LEEME.pdf': 'x' });
+
+    await expect(runPipeline([{ name: 'vacio.zip', data: empty }])).rejects.toThrow(/No se pudieron extraer archivos ASC/);
+  });
+
+  it('reports the extraction limits that cut a delivery short and drops the partial file', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    // Enough rows for the first batch to be parsed before the size limit stops the file
+    const large501 = ascFile(HEADERS_501, Array.from({ length: 5000 }, () => ROWS_501[0]));
+    const delivery = await makeZip({ '3420_510.asc': FILE_510, 'grande/3420_501.asc': large501 }, 'STORE');
+    const result = await runPipeline([{ name: 'entrega.zip', data: delivery }], { extractionLimits: { maxTotalBytes: 200_000 } });
+    consoleError.mockRestore();
+
+    expect(result.sections.map(section => section.code)).toEqual(['510']);
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      severity: 'error', file: 'entrega.zip/grande/3420_501.asc', message: expect.stringMatching(/se superó el límite de 200000 bytes descomprimidos/)
+    }));
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      severity: 'error', message: expect.stringMatching(/se descartaron sus 2000 filas/)
+    }));
+  });
+
+  it('stops a zip bomb at the default uncompressed size limit', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    // Concatenated gzip members of 64 MB each: about 6 MB that expand past 2 GB
+    const member = await gzip(('x'.repeat(65535) + '\n').repeat(1024));
+    const bomb = new Uint8Array(member.length * 33);
+    for (let index = 0; index < 33; index++) bomb.set(member, index * member.length);
+    const delivery = makeTar({ '3420_510.asc': FILE_510, 'bomba.asc.gz': bomb });
+    const result = await runPipeline([{ name: 'entrega.tar', data: delivery }]);
+    consoleError.mockRestore();
+
+    expect(result.sections.map(section => section.code)).toEqual(['510']);
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      severity: 'error', file: 'entrega.tar/bomba.asc.gz', message: expect.stringMatching(/se superó el límite de 2.0 GB descomprimidos/)
+    }));
+  }, 60_000);
+
+  it('reports nested archives skipped by the depth limit', async () => {
+    const delivery = await makeZip({ '3420_510.asc': FILE_510, 'anidado.zip': await makeZip({ '3420_501.asc': FILE_501 }) });
+    const result = await runPipeline([{ name: 'entrega.zip', data: delivery }], { extractionLimits: { maxDepth: 0 } });
+
+    expect(result.sections.map(section => section.code)).toEqual(['510']);
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      severity: 'error', file: 'entrega.zip/anidado.zip', message: expect.stringMatching(/límite de profundidad/)
+    }));
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { runPipeline } from '../utils/pipeline';
+import { runQualityRules } from '../utils/qualityRules';
+import { parseAscFiles } from '../utils/parser';
+import { ascFile, FILE_501, FILE_551, HEADERS_501 } from './fixtures';
+
+const encoder = new TextEncoder();
+
+// A bad RFC, a 3 digit patente, a future payment date and a partida of a pedimento without 501
+const parsed = parseAscFiles(new Map([
+  ['3420_501.asc', ascFile(HEADERS_501, [
+    ['3420', '5001234', '470', '1', 'A1', 'AAA010101AAA', '17.2500', '2025-01-10 00:00:00'],
+    ['342', '5001235', '240', '2', 'V1', 'XYZ-1', '17.3000', '2031-02-11 00:00:00']
+  ])],
+  ['3420_551.asc', ascFile(
+    ['Patente', 'Pedimento', 'SeccionAduanera', 'Fraccion', 'SecuenciaFraccion', 'ValorAduana', 'ValorComercial', 'TipoOperacion'],
+    [
+      ['3420', '5001234', '470', '01012101', '1', '900', '1000', '1'],
+      ['3420', '5001234', '470', '8471300101', '2', '-5', '0', '1'],
+      ['3420', '5009999', '470', '847130', '1', '100', '100', '2']
+    ]
+  )],
+  ['3420_557.asc', ascFile(
+    ['Patente', 'Pedimento', 'SeccionAduanera', 'Fraccion', 'SecuenciaFraccion', 'ClaveContribucion', 'FormaPago', 'ImportePago'],
+    [['3420', '5001234', '470', '01012101', '3', '6', '0', '160']]
+  )]
+])).sectionMap;
+
+const NOW = new Date(2026, 9, 19);
+
+describe('runQualityRules', () => {
+  it('lists the rows breaking each built-in rule', () => {
+    const { table } = runQualityRules(parsed, {}, NOW);
+    const column = (name: string) => table.headers.indexOf(name);
+
+    expect(table.rows.map(row => [row[column('Regla')], row[column('Sección')], row[column('Columna')], row[column('Valor')]])).toEqual([
+      ['RFC del contribuyente (501) con formato válido', '501', 'Rfc', 'XYZ-1'],
+      ['Fracción arancelaria de 8 dígitos (10 con NICO)', '551', 'Fraccion', '847130'],
+      ['Patente de 4 dígitos', '501', 'Patente', '342'],
+      ['Fechas entre 1990 y la fecha de la conversión', '501', 'FechaPagoReal', '2031-02-11 00:00:00'],
+      ['Importes, valores y cantidades no negativos (salvo las diferencias de rectificación, 702)', '551', 'ValorAduana', '-5'],
+      ['ValorAduana mayor o igual que ValorComercial en importaciones (551)', '551', 'ValorAduana', '900'],
+      ['ValorAduana mayor o igual que ValorComercial en importaciones (551)', '551', 'ValorAduana', '-5'],
+      ['Cada partida (551) tiene los datos generales de su pedimento (501)', '551', '', ''],
+      ['Cada contribución por partida (557) tiene su partida (551)', '557', '', '']
+    ]);
+    expect(table.rows[7][column('Clave')]).toMatch(/-47-3420-5009999-1$/);
+  });
+
+  it('reports violations with the configured severity and skips rules turned off', () => {
+    const { table, diagnostics } = runQualityRules(parsed, { rfc: 'error', fechas: 'off' }, NOW);
+
+    expect(diagnostics).toContainEqual(expect.objectContaining({
+      severity: 'error', section: '501', column: 'Rfc', message: expect.stringMatching(/XYZ-1/)
+    }));
+    expect(table.rows.some(row => row[1] === 'Fechas entre 1990 y la fecha de la conversión')).toBe(false);
+    expect(table.rows[0][0]).toBe('Error');
+  });
+
+  it('accepts the negative contribution differences of rectifications (702)', () => {
+    const rectification = parseAscFiles(new Map([['3420_702.asc', ascFile(
+      ['Patente', 'Pedimento', 'SeccionAduanera', 'ClaveContribucion', 'FormaPago', 'ImporteContribucion'],
+      [['3420', '5001240', '470', '3', '0', '-1250.50']]
+    )]])).sectionMap;
+    const { table } = runQualityRules(rectification, {}, NOW);
+
+    expect(rectification.get('702')?.[0].ImporteContribucion).toBe(-1250.5);
+    expect(table.rows).toEqual([]);
+  });
+
+  it('notes the references that cannot be checked without the parent section', () => {
+    const { diagnostics } = runQualityRules(parseAscFiles(new Map([['3420_551.asc', FILE_551]])).sectionMap, {}, NOW);
+
+    expect(diagnostics).toContainEqual(expect.objectContaining({
+      severity: 'info', message: expect.stringMatching(/no incluyen la sección 501/)
+    }));
+  });
+});
+
+describe('quality rules in the pipeline', () => {
+  it('adds the "Reglas de calidad" sheet when enabled', async () => {
+    const result = await runPipeline(
+      [
+        { name: '3420_501.asc', data: encoder.encode(FILE_501) },
+        { name: '3420_551.asc', data: encoder.encode(FILE_551) }
+      ],
+      { qualityRules: {} }
+    );
+
+    const workbook = XLSX.read(result.output.data, { type: 'array' });
+    expect(workbook.SheetNames).toContain('Reglas de calidad');
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      severity: 'info', message: expect.stringMatching(/sin encontrar incumplimientos/)
+    }));
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { AscRow } from '../utils/parser';
+import { buildCurrentState } from '../utils/rectifications';
+
+function pedimento(consecutivo: string): AscRow {
+  return { No_Pedimento: `25-47-3420-${consecutivo}`, Patente: '3420', Pedimento: consecutivo, SeccionAduanera: '470' };
+}
+
+function rectification(consecutivo: string, anterior: string): AscRow {
+  return {
+    ...pedimento(consecutivo),
+    PatenteAnterior: '3420', PedimentoAnterior: anterior, SeccionAduaneraAnterior: '470',
+    FechaPago: new Date(2025, 2, 1)
+  };
+}
+
+describe('buildCurrentState', () => {
+  it('keeps only the latest delivered version of a rectified pedimento', () => {
+    const { sectionMap, diagnostics } = buildCurrentState(new Map([
+      ['501', [pedimento('5000001'), pedimento('5000002')]],
+      ['701', [rectification('5000002', '5000001')]]
+    ]));
+
+    expect(sectionMap.get('501')?.map(row => [row.Pedimento, row.Rectifica_a])).toEqual([['5000002', '25-47-3420-5000001']]);
+    expect(diagnostics).toContainEqual(expect.objectContaining({ severity: 'info', section: '501' }));
+  });
+
+  it('keeps one version of pedimentos whose rectifications form a cycle and reports it', () => {
+    const { sectionMap, history, diagnostics } = buildCurrentState(new Map([
+      ['501', [pedimento('5000001'), pedimento('5000002')]],
+      ['701', [rectification('5000002', '5000001'), rectification('5000001', '5000002')]]
+    ]));
+
+    expect(sectionMap.get('501')?.map(row => row.Pedimento)).toEqual(['5000002']);
+    expect(history?.rows.map(row => row[3])).toEqual(['25-47-3420-5000002', '25-47-3420-5000002']);
+    expect(diagnostics.filter(diagnostic => diagnostic.severity === 'warning')).toEqual([expect.objectContaining({
+      section: '701',
+      message: 'Las rectificaciones forman un ciclo (25-47-3420-5000001 → 25-47-3420-5000002 → 25-47-3420-5000001); ' +
+        'se toma 25-47-3420-5000002 como vigente'
+    })]);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { outputBaseName, runPipeline } from '../utils/pipeline';
+import { addIndexSheet, buildWorkbookFromTables, collectTables, workbookToBytes } from '../utils/excel';
+import { parseAscFiles } from '../utils/parser';
+import { readExistingWorkbook } from '../utils/workbookUpdate';
+import { ascFile, FILE_501, FILE_551, HEADERS_501, ROWS_501 } from './fixtures';
+
+const encoder = new TextEncoder();
+
+// February drop: 5001234 again with another exchange rate, and a new pedimento
+const FEBRERO_501 = ascFile(HEADERS_501, [
+  ['3420', '5001234', '470', '1', 'A1', 'AAA010101AAA', '18.0000', '2025-01-10 00:00:00'],
+  ['3420', '5001236', '470', '1', 'A1', 'CCC030303CCC', '18.1000', '2025-03-12 00:00:00']
+]);
+
+/**
+ * Workbook of a previous run (January) with a sheet the user added by hand
+ */
+async function yearWorkbook(): Promise<Uint8Array> {
+  const { output } = await runPipeline(
+    [
+      { name: 'enero/3420_501.asc', data: encoder.encode(FILE_501) },
+      { name: 'enero/3420_551.asc', data: encoder.encode(FILE_551) }
+    ],
+    { indexSheet: true, validationSheet: true }
+  );
+  const workbook = XLSX.read(output.data, { type: 'array' });
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Revisado por'], ['Ana']]), 'Notas');
+  return new Uint8Array(XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }));
+}
+
+function sheetRows(data: Uint8Array, sheetName: string): Record<string, unknown>[] {
+  const workbook = XLSX.read(data, { type: 'array' });
+  return XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[sheetName]);
+}
+
+describe('updating an existing workbook', () => {
+  it('adds new pedimentos and keeps the ones already in the workbook', async () => {
+    const result = await runPipeline([
+      { name: 'anual.xlsx', data: await yearWorkbook() },
+      { name: 'febrero/3420_501.asc', data: encoder.encode(FEBRERO_501) }
+    ]);
+
+    const rows = sheetRows(result.output.data, '501 Datos generales');
+    expect(rows.map(row => [row.No_Pedimento, row.Origen, row.TipoCambio])).toEqual([
+      ['25-47-3420-5001234', 'enero', 17.25],
+      ['25-24-3420-5001235', 'enero', 17.3],
+      ['25-47-3420-5001236', 'febrero', 18.1]
+    ]);
+    // Sections missing from the new drop stay as they were
+    expect(sheetRows(result.output.data, '551 Partidas')).toHaveLength(2);
+    expect(result.sectionMap.get('501')?.[0].FechaPagoReal).toEqual(new Date(2025, 0, 10));
+  });
+
+  it('replaces the pedimentos already in the workbook with the replace policy', async () => {
+    const result = await runPipeline(
+      [
+        { name: 'anual.xlsx', data: await yearWorkbook() },
+        { name: 'febrero/3420_501.asc', data: encoder.encode(FEBRERO_501) }
+      ],
+      { updatePolicy: 'replace' }
+    );
+
+    const rows = sheetRows(result.output.data, '501 Datos generales');
+    expect(rows.map(row => [row.No_Pedimento, row.Origen, row.TipoCambio])).toEqual([
+      ['25-24-3420-5001235', 'enero', 17.3],
+      ['25-47-3420-5001234', 'febrero', 18],
+      ['25-47-3420-5001236', 'febrero', 18.1]
+    ]);
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      section: '501', message: expect.stringMatching(/1 pedimentos ya presentes se reemplazaron/)
+    }));
+  });
+
+  it('matches the pedimentos on their components when the key format changed', async () => {
+    const result = await runPipeline(
+      [
+        { name: 'anual.xlsx', data: await yearWorkbook() },
+        { name: 'febrero/3420_501.asc', data: encoder.encode(FEBRERO_501) }
+      ],
+      { keyFormat: 'compacto' }
+    );
+
+    const rows = sheetRows(result.output.data, '501 Datos generales');
+    expect(rows.map(row => [row.No_Pedimento, row.Origen])).toEqual([
+      ['25-47-3420-5001234', 'enero'],
+      ['25-24-3420-5001235', 'enero'],
+      ['254734205001236', 'febrero']
+    ]);
+  });
+
+  it('keeps the sheets added by the user and rebuilds the generated ones', async () => {
+    const result = await runPipeline(
+      [
+        { name: 'anual.xlsx', data: await yearWorkbook() },
+        { name: 'febrero/3420_501.asc', data: encoder.encode(FEBRERO_501) }
+      ],
+      { indexSheet: true }
+    );
+
+    const workbook = XLSX.read(result.output.data, { type: 'array' });
+    expect(workbook.SheetNames).toEqual(['Índice', '501 Datos generales', '551 Partidas', 'Notas']);
+    expect(workbook.Sheets['Notas']['A2']).toMatchObject({ v: 'Ana' });
+    expect(result.output.tableCount).toBe(3);
+  });
+
+  it('rebuilds the index sheet when a workbook is updated a second time', async () => {
+    const febrero = await runPipeline(
+      [
+        { name: 'anual.xlsx', data: await yearWorkbook() },
+        { name: 'febrero/3420_501.asc', data: encoder.encode(FEBRERO_501) }
+      ],
+      { indexSheet: true }
+    );
+    const marzo = await runPipeline(
+      [
+        { name: 'anual.xlsx', data: febrero.output.data },
+        { name: 'marzo/3420_551.asc', data: encoder.encode(FILE_551) }
+      ],
+      { indexSheet: true }
+    );
+
+    const workbook = XLSX.read(marzo.output.data, { type: 'array' });
+    expect(workbook.SheetNames).toEqual(['Índice', '501 Datos generales', '551 Partidas', 'Notas']);
+    expect(sheetRows(marzo.output.data, 'Índice').map(row => row.Hoja)).toEqual(['501 Datos generales', '551 Partidas', 'Notas']);
+
+    // An index sheet already in the workbook is replaced, not added twice
+    addIndexSheet(workbook);
+    expect(workbook.SheetNames).toEqual(['Índice', '501 Datos generales', '551 Partidas', 'Notas']);
+  });
+
+  it('reads continuation sheets back into one section', async () => {
+    const parsed = parseAscFiles(new Map([['3420_501.asc', FILE_501]]));
+    const bytes = await workbookToBytes(buildWorkbookFromTables(collectTables(parsed.sectionMap), 1));
+    const existing = await readExistingWorkbook(bytes);
+
+    expect(existing.sectionMap.get('501')).toHaveLength(ROWS_501.length);
+    expect(existing.extraSheets).toEqual([]);
+  });
+
+  it('keeps the leading zeros of identifiers Excel stored as numbers', async () => {
+    const workbook = XLSX.utils.book_new();
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ['No_Pedimento', 'Patente', 'Pedimento', 'SeccionAduanera', 'Fraccion', 'SecuenciaFraccion'],
+      ['25-07-0342-0001234', 342, 1234, 70, 1012101, 1]
+    ]);
+    // Formats a user would set to show the leading zeros of the numbers
+    sheet['B2'].z = '0000';
+    sheet['C2'].z = '0000000';
+    sheet['D2'].z = '000';
+    XLSX.utils.book_append_sheet(workbook, sheet, '551 Partidas');
+    const existing = await readExistingWorkbook(new Uint8Array(XLSX.write(workbook, { bookType: 'xlsx', type: 'array' })));
+
+    expect(existing.sectionMap.get('551')?.[0]).toMatchObject({
+      Patente: '0342', Pedimento: '0001234', SeccionAduanera: '070', Fraccion: '01012101', SecuenciaFraccion: 1
+    });
+  });
+
+  it('names the output after the updated workbook', () => {
+    expect(outputBaseName(['2025/anual.xlsx', 'febrero.zip'])).toBe('anual_actualizado');
+  });
+
+  it('fails with more than one workbook to update', async () => {
+    const workbook = await yearWorkbook();
+
+    await expect(runPipeline([
+      { name: 'a.xlsx', data: workbook },
+      { name: 'b.xlsx', data: workbook }
+    ])).rejects.toThrow(/Solo se puede actualizar un libro/);
+  });
+});
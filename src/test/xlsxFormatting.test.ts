@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import * as XLSX from 'xlsx';
+import { addIndexSheet, buildWorkbookFromTables, workbookToBytes } from '../utils/excel';
+import type { TableData } from '../utils/consolidate';
+
+const TABLES: TableData[] = [
+  {
+    name: '501 Datos generales',
+    section: '501',
+    headers: ['No_Pedimento', 'Patente', 'TipoCambio'],
+    columnTypes: ['text', 'text', 'decimal'],
+    rows: [['25-47-3420-5001234', '3420', 17.25], ['25-47-3420-5001235', '3420', 17.3]]
+  },
+  { name: 'Vacía', headers: [], columnTypes: [], rows: [] }
+];
+
+async function readPart(zip: JSZip, path: string): Promise<string> {
+  const file = zip.file(path);
+  if (!file) throw new Error(`Missing ${path}`);
+  return file.async('string');
+}
+
+describe('formatWorkbook', () => {
+  it('registers each data sheet as a styled Excel Table with frozen panes', async () => {
+    const zip = await JSZip.loadAsync(await workbookToBytes(buildWorkbookFromTables(TABLES)));
+    const table = await readPart(zip, 'xl/tables/table1.xml');
+    const sheet = await readPart(zip, 'xl/worksheets/sheet1.xml');
+
+    expect(table).toContain('name="Tabla_501_Datos_generales"');
+    expect(table).toContain('ref="A1:C3"');
+    expect(table).toContain('<tableColumn id="1" name="No_Pedimento"/>');
+    expect(table).toContain('showRowStripes="1"');
+    expect(await readPart(zip, '[Content_Types].xml')).toContain('PartName="/xl/tables/table1.xml"');
+    expect(await readPart(zip, 'xl/worksheets/_rels/sheet1.xml.rels')).toContain('Target="../tables/table1.xml"');
+
+    expect(sheet).toContain('<pane xSplit="1" ySplit="1" topLeftCell="B2" activePane="bottomRight" state="frozen"/>');
+    expect(sheet).toContain('<tableParts count="1">');
+    // The table's autofilter replaces the sheet's one
+    expect(sheet).not.toContain('<autoFilter');
+    expect(await readPart(zip, 'xl/workbook.xml')).not.toContain('_xlnm._FilterDatabase');
+
+    const headerStyle = /<c r="A1" s="(\d+)"/.exec(sheet)?.[1];
+    expect(headerStyle).toBeDefined();
+    expect(/<c r="C1" s="(\d+)"/.exec(sheet)?.[1]).toBe(headerStyle);
+  });
+
+  it('leaves sheets without a header row untouched', async () => {
+    const zip = await JSZip.loadAsync(await workbookToBytes(buildWorkbookFromTables(TABLES)));
+
+    expect(zip.file('xl/tables/table2.xml')).toBeNull();
+    expect(await readPart(zip, 'xl/worksheets/sheet2.xml')).not.toContain('<pane');
+  });
+
+  it('fills the rows whose value in the highlight column is not the expected one', async () => {
+    const reconciliation: TableData = {
+      name: 'Conciliación',
+      headers: ['Estado', 'Diferencia'],
+      columnTypes: ['text', 'decimal'],
+      rows: [['Diferencia', 12.5], ['OK', 0]],
+      highlight: { column: 'Estado', expected: 'OK' }
+    };
+    const zip = await JSZip.loadAsync(await workbookToBytes(buildWorkbookFromTables([...TABLES, reconciliation])));
+    const sheet = await readPart(zip, 'xl/worksheets/sheet3.xml');
+    const styles = await readPart(zip, 'xl/styles.xml');
+
+    expect(sheet).toContain('<conditionalFormatting sqref="A2:B3"><cfRule type="expression" dxfId="0" priority="1">' +
+      '<formula>$A2&lt;&gt;&quot;OK&quot;</formula></cfRule></conditionalFormatting>');
+    // The worksheet schema puts conditional formats before the table parts
+    expect(sheet.indexOf('<conditionalFormatting')).toBeLessThan(sheet.indexOf('<tableParts'));
+    expect(styles).toMatch(/<dxfs count="1"><dxf>.*<bgColor rgb="FFFFC7CE"\/>.*<\/dxf><\/dxfs>/);
+    expect(await readPart(zip, 'xl/worksheets/sheet1.xml')).not.toContain('<conditionalFormatting');
+  });
+
+  it('keeps the cell values readable', async () => {
+    const workbook = XLSX.read(await workbookToBytes(buildWorkbookFromTables(TABLES)), { type: 'array' });
+
+    expect(workbook.Sheets['501 Datos generales']['C2']).toMatchObject({ t: 'n', v: 17.25 });
+  });
+});
+
+describe('addIndexSheet', () => {
+  it('puts a first sheet linking to every sheet with its row count', async () => {
+    const built = buildWorkbookFromTables(TABLES);
+    addIndexSheet(built);
+    const workbook = XLSX.read(await workbookToBytes(built), { type: 'array' });
+    const index = workbook.Sheets['Índice'];
+
+    expect(workbook.SheetNames).toEqual(['Índice', '501 Datos generales', 'Vacía']);
+    expect(XLSX.utils.sheet_to_json<unknown[]>(index, { header: 1 })).toEqual([
+      ['Hoja', 'Filas'],
+      ['501 Datos generales', 2],
+      ['Vacía', 0]
+    ]);
+    expect(index['A2'].l).toMatchObject({ Target: "#'501 Datos generales'!A1" });
+  });
+});
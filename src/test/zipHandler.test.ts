@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Diagnostic } from '../utils/diagnostics';
+import { extractAscFromZip, ZipHandlerOptions } from '../utils/zipHandler';
+import { FILE_501, FILE_510, FILE_551, gzip, makeCorruptZip, makeTar, makeZip } from './fixtures';
+
+/**
+ * Extract a fixture ZIP, collecting the reported errors
+ */
+async function extract(zip: Uint8Array, options: Partial<ZipHandlerOptions> = {}) {
+  const errors: string[] = [];
+  const files = await extractAscFromZip(zip, {
+    onProgress: () => {},
+    onError: (error) => errors.push(error),
+    onInfo: () => {},
+    ...options
+  });
+  return { files, errors };
+}
+
+describe('extractAscFromZip', () => {
+  it('extracts the .asc files at the root of the archive', async () => {
+    const { files, errors } = await extract(await makeZip({ '3420_501.asc': FILE_501, 'LEEME.pdf': 'x' }));
+
+    expect(errors).toEqual([]);
+    expect(Array.from(files.keys())).toEqual(['main/3420_501.asc']);
+    expect(files.get('main/3420_501.asc')).toBe(FILE_501);
+  });
+
+  it('finds .asc files inside folders and keeps their folders', async () => {
+    const { files } = await extract(await makeZip({ 'extraccion/2025/3420_510.asc': FILE_510 }));
+
+    expect(Array.from(files.keys())).toEqual(['main/extraccion/2025/3420_510.asc']);
+  });
+
+  it('keeps files with the same name in different folders apart', async () => {
+    const { files } = await extract(await makeZip({ 'enero/3420_501.asc': FILE_501, 'febrero/3420_501.asc': FILE_501 + '3420|5001236|470|1|A1|CCC030303CCC|17.4000|2025-03-12 00:00:00|\n' }));
+
+    expect(Array.from(files.keys()).sort()).toEqual(['main/enero/3420_501.asc', 'main/febrero/3420_501.asc']);
+    expect(files.get('main/enero/3420_501.asc')).toBe(FILE_501);
+  });
+
+  it('extracts nested ZIPs into a folder named after them', async () => {
+    const nested = await makeZip({ '3420_551.asc': FILE_551 });
+    const { files } = await extract(await makeZip({ '3420_501.asc': FILE_501, 'partidas_enero.zip': nested }));
+
+    expect(Array.from(files.keys()).sort()).toEqual(['main/3420_501.asc', 'partidas_enero/3420_551.asc']);
+    expect(files.get('partidas_enero/3420_551.asc')).toBe(FILE_551);
+  });
+
+  it('treats .txt files with pipe-delimited data as ASC files when there are none', async () => {
+    const { files, errors } = await extract(await makeZip({ '3420_501.txt': FILE_501, 'notas.txt': 'sin datos' }));
+
+    expect(errors).toEqual([]);
+    expect(files.get('text_files/3420_501.txt')).toBe(FILE_501);
+  });
+
+  it('reads the sampled .txt file once against the size limit', async () => {
+    const limit = new TextEncoder().encode(FILE_501).length + 10;
+    const { files, errors } = await extract(await makeZip({ '3420_501.txt': FILE_501 }), { limits: { maxTotalBytes: limit } });
+
+    expect(errors).toEqual([]);
+    expect(files.get('text_files/3420_501.txt')).toBe(FILE_501);
+  });
+
+  it('reports archives without ASC data', async () => {
+    const { files, errors } = await extract(await makeZip({ 'LEEME.pdf': 'x' }));
+
+    expect(files.size).toBe(0);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('reports entries that fail the CRC check instead of returning corrupt text', async () => {
+    // The failure is also logged; keep the test output clean
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { files, errors } = await extract(await makeCorruptZip({ '3420_501.asc': FILE_501 }));
+    consoleError.mockRestore();
+
+    expect(files.size).toBe(0);
+    expect(errors.join()).toMatch(/crc32/i);
+  });
+
+  it('decodes Latin-1 entries', async () => {
+    const latin1 = Uint8Array.from(Array.from('OBSERVACIÓN|', char => char.charCodeAt(0)));
+    const diagnostics: Diagnostic[] = [];
+    const { files } = await extract(await makeZip({ '3420_511.asc': latin1 }), { onDiagnostic: (diagnostic) => diagnostics.push(diagnostic) });
+
+    expect(files.get('main/3420_511.asc')).toBe('OBSERVACIÓN|');
+    expect(diagnostics).toEqual([expect.objectContaining({
+      severity: 'info', file: 'main/3420_511.asc', message: expect.stringMatching(/^Codificación: Latin-1 \/ Windows-1252/)
+    })]);
+  });
+
+  it('extracts ZIPs nested at any depth into folders named after their full path', async () => {
+    const level3 = await makeZip({ '3420_551.asc': FILE_551 });
+    const level2 = await makeZip({ 'semana1.zip': level3, '3420_510.asc': FILE_510 });
+    const { files } = await extract(await makeZip({ 'entregas/enero.zip': level2 }));
+
+    expect(Array.from(files.keys()).sort()).toEqual(['entregas/enero/3420_510.asc', 'entregas/enero/semana1/3420_551.asc']);
+  });
+
+  it('keeps nested archives with the same name in different folders apart', async () => {
+    const { files } = await extract(await makeZip({
+      '2024/01.zip': await makeZip({ '3420_501.asc': FILE_501 }),
+      '2025/01.zip': await makeZip({ '3420_501.asc': FILE_501 })
+    }));
+
+    expect(Array.from(files.keys()).sort()).toEqual(['2024/01/3420_501.asc', '2025/01/3420_501.asc']);
+  });
+
+  it('reads TAR and gzip wrappers', async () => {
+    const tar = makeTar({
+      './3420_501.asc': FILE_501,
+      'partidas.zip': await makeZip({ '3420_551.asc': FILE_551 }),
+      'contribuciones/3420_510.asc.gz': await gzip(FILE_510)
+    });
+    const { files, errors } = await extract(await gzip(tar));
+
+    expect(errors).toEqual([]);
+    expect(Array.from(files.keys()).sort()).toEqual(['main/3420_501.asc', 'main/contribuciones/3420_510.asc', 'partidas/3420_551.asc']);
+    expect(files.get('main/contribuciones/3420_510.asc')).toBe(FILE_510);
+  });
+
+  it('skips archives nested deeper than the depth limit', async () => {
+    const level2 = await makeZip({ '3420_551.asc': FILE_551 });
+    const level1 = await makeZip({ 'profundo.zip': level2, '3420_510.asc': FILE_510 });
+    const { files, errors } = await extract(await makeZip({ 'nivel1.zip': level1 }), { limits: { maxDepth: 1 } });
+
+    expect(Array.from(files.keys())).toEqual(['nivel1/3420_510.asc']);
+    expect(errors).toEqual([expect.stringContaining('profundo.zip')]);
+  });
+
+  it('stops extracting once the uncompressed size or file count limit is exceeded', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    // A highly compressible entry, as in a zip bomb
+    const bomb = await makeZip({ '3420_501.asc': FILE_501 + 'x'.repeat(200_000) });
+    const bySize = await extract(await makeZip({ 'bomba.zip': bomb, '3420_510.asc': FILE_510 }), { limits: { maxTotalBytes: 100_000 } });
+    expect(bySize.errors).toEqual([expect.stringMatching(/more than 100000 bytes of uncompressed data/)]);
+
+    const byCount = await extract(await makeZip({ '1.asc': FILE_501, '2.asc': FILE_501, '3.asc': FILE_501 }), { limits: { maxEntries: 2 } });
+    expect(byCount.files.size).toBe(0);
+    consoleError.mockRestore();
+    expect(byCount.errors).toEqual([expect.stringMatching(/more than 2 files/)]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Container formats found in Data Stage deliveries: ZIP archives, TAR archives
+ * and gzip wrappers (".gz", ".tgz", ".tar.gz") around either of them or around an ASC file
+ */
+export type ArchiveKind = 'zip' | 'tar' | 'gzip';
+
+// Size of a TAR header and of the blocks file data is padded to
+const TAR_BLOCK = 512;
+
+/**
+ * A regular file of a TAR archive; data is a view into the archive bytes
+ */
+export interface TarEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+/**
+ * Container format of a file by its extension (undefined for anything else)
+ */
+export const archiveKindFromName = (path: string): ArchiveKind | undefined => {
+  const lowerPath = path.toLowerCase();
+  if (lowerPath.endsWith('.zip')) return 'zip';
+  if (lowerPath.endsWith('.tar')) return 'tar';
+  if (lowerPath.endsWith('.gz') || lowerPath.endsWith('.tgz')) return 'gzip';
+  return undefined;
+};
+
+/**
+ * Container format of a file by its magic bytes (undefined for anything else, e.g. ASC text)
+ */
+export const archiveKindFromBytes = (bytes: Uint8Array): ArchiveKind | undefined => {
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) return 'zip';
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) return 'gzip';
+  // "ustar" magic of POSIX and GNU headers
+  if (new TextDecoder().decode(bytes.subarray(257, 262)) === 'ustar') return 'tar';
+  return undefined;
+};
+
+/**
+ * Name of the file inside a gzip wrapper ("datos.tgz" → "datos.tar", "3420_501.asc.gz" → "3420_501.asc")
+ */
+export const gunzippedName = (path: string): string => {
+  return /\.tgz$/i.test(path) ? path.slice(0, -4) + '.tar' : path.replace(/\.gz$/i, '');
+};
+
+/**
+ * Decompress gzip data chunk by chunk; returning false from onChunk stops early
+ */
+export const gunzip = async (
+  bytes: Uint8Array,
+  onChunk: (chunk: Uint8Array) => boolean | void
+): Promise<void> => {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip')).getReader();
+  try {
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      if (onChunk(chunk.value) === false) break;
+    }
+  } finally {
+    // Release the decompressor when stopping early or on an error (no-op once done)
+    await reader.cancel().catch(() => {});
+  }
+};
+
+/**
+ * List the regular files of a TAR archive (ustar, GNU long names and pax paths)
+ * Nothing is copied: the file data are views into the archive bytes
+ */
+export const readTar = (bytes: Uint8Array): TarEntry[] => {
+  const decoder = new TextDecoder();
+  // NUL-terminated header field
+  const field = (start: number, length: number) => {
+    const value = bytes.subarray(start, start + length);
+    const end = value.indexOf(0);
+    return decoder.decode(end === -1 ? value : value.subarray(0, end));
+  };
+
+  const entries: TarEntry[] = [];
+  // Path of the next entry from a GNU long name or pax header
+  let longPath: string | undefined;
+
+  for (let offset = 0; offset + TAR_BLOCK <= bytes.length;) {
+    // An empty header marks the end of the archive
+    if (bytes[offset] === 0) break;
+
+    const size = parseInt(field(offset + 124, 12).trim() || '0', 8);
+    if (Number.isNaN(size)) {
+      throw new Error(`Invalid TAR header at byte ${offset}`);
+    }
+    const dataStart = offset + TAR_BLOCK;
+    if (dataStart + size > bytes.length) {
+      throw new Error('Truncated TAR archive');
+    }
+    const data = bytes.subarray(dataStart, dataStart + size);
+    const type = String.fromCharCode(bytes[offset + 156]);
+    const name = field(offset, 100);
+    // POSIX ustar headers can split long paths into a prefix and a name
+    const prefix = field(offset + 257, 6) === 'ustar' ? field(offset + 345, 155) : '';
+    offset = dataStart + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+    if (type === 'L') {
+      longPath = decoder.decode(data).replace(/\0+$/, '');
+      continue;
+    }
+    if (type === 'x') {
+      longPath = paxPath(decoder.decode(data)) ?? longPath;
+      continue;
+    }
+
+    const path = longPath ?? (prefix ? `${prefix}/${name}` : name);
+    longPath = undefined;
+    // Regular files only (directories, links and devices have no data to extract)
+    if ((type === '0' || type === '\0' || type === '7') && !path.endsWith('/')) {
+      entries.push({ path, data });
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * Path from the records of a pax extended header ("<length> path=<value>\n")
+ */
+function paxPath(records: string): string | undefined {
+  for (const record of records.split('\n')) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) return match[1];
+  }
+  return undefined;
+}
@@ -0,0 +1,205 @@
+import type { AscRow } from './parser';
+import type { RowHighlight } from './xlsxFormatting';
+import { CellValue, ColumnType, formatDateTime, getSectionSchema } from './schema';
+
+/**
+ * How the values of a one-to-many child table are reduced to one cell
+ * - auto: numbers are summed, everything else is concatenated
+ */
+export type ChildAggregation = 'auto' | 'sum' | 'concat' | 'first' | 'count';
+
+export interface ChildTableSelection {
+  section: string;
+  columns: string[];
+  aggregation?: ChildAggregation;
+  // Spread the values into one column per distinct value of this column
+  // (e.g. 510 ImportePago per ClaveContribucion)
+  pivotBy?: string;
+}
+
+export interface ConsolidationOptions {
+  // Columns of 501/551 to keep (default: all)
+  pedimentoColumns?: string[];
+  partidaColumns?: string[];
+  pedimentoChildren?: ChildTableSelection[];
+  partidaChildren?: ChildTableSelection[];
+  // Overrides the aggregation of every child selection
+  aggregation?: ChildAggregation;
+  separator?: string;
+}
+
+export interface TableData {
+  name: string;
+  // Section code of section tables (derived tables have none)
+  section?: string;
+  headers: string[];
+  columnTypes: ColumnType[];
+  rows: CellValue[][];
+  // Rows filled in the workbook so they stand out (e.g. reconciliation mismatches)
+  highlight?: RowHighlight;
+}
+
+export const PEDIMENTOS_SHEET_NAME = 'Pedimentos consolidados';
+export const PARTIDAS_SHEET_NAME = 'Partidas consolidadas';
+
+export const DEFAULT_CONSOLIDATION: ConsolidationOptions = {
+  pedimentoChildren: [
+    { section: '505', columns: ['NumeroFactura', 'ProveedorMercancia', 'ValorDolares'] },
+    { section: '507', columns: ['ClaveCaso'] },
+    { section: '510', columns: ['ImportePago'], aggregation: 'sum', pivotBy: 'ClaveContribucion' },
+    { section: '511', columns: ['Observaciones'] }
+  ],
+  partidaChildren: [
+    { section: '552', columns: ['VinNumeroSerie'] },
+    { section: '553', columns: ['ClavePermiso', 'NumeroPermiso'] },
+    { section: '554', columns: ['ClaveCaso', 'IdentificadorCaso'] },
+    { section: '556', columns: ['TasaContribucion'], aggregation: 'first', pivotBy: 'ClaveContribucion' },
+    { section: '557', columns: ['ImportePago'], aggregation: 'sum', pivotBy: 'ClaveContribucion' },
+    { section: '558', columns: ['Observaciones'] }
+  ],
+  separator: '; '
+};
+
+const PEDIMENTO_JOIN = ['Patente', 'Pedimento', 'SeccionAduanera'];
+const PARTIDA_JOIN = [...PEDIMENTO_JOIN, 'SecuenciaFraccion'];
+
+/**
+ * Join key of a row; numbers and text compare equal ("1" and 1)
+ */
+function joinKey(row: AscRow, columns: string[]): string {
+  return columns.map(column => String(row[column] ?? '')).join('|');
+}
+
+/**
+ * Reduce the values of one child column for a parent row
+ */
+function aggregateValues(values: CellValue[], aggregation: ChildAggregation, separator: string): CellValue {
+  const present = values.filter(value => value !== '' && value !== undefined);
+
+  switch (aggregation) {
+    case 'count':
+      return present.length;
+    case 'first':
+      return present[0] ?? '';
+    case 'sum': {
+      const total = present.reduce<number>((sum, value) => sum + (typeof value === 'number' ? value : 0), 0);
+      // Avoid floating point noise like 160.07999999999998
+      return present.length > 0 ? Math.round(total * 1e6) / 1e6 : '';
+    }
+    case 'concat':
+      return Array.from(new Set(present.map(value => value instanceof Date ? formatDateTime(value) : String(value)))).join(separator);
+    default: {
+      const allNumbers = present.length > 0 && present.every(value => typeof value === 'number');
+      return aggregateValues(values, allNumbers ? 'sum' : 'concat', separator);
+    }
+  }
+}
+
+/**
+ * Output type of an aggregated column
+ */
+function aggregatedType(sourceType: ColumnType, aggregation: ChildAggregation): ColumnType {
+  switch (aggregation) {
+    case 'count':
+      return 'integer';
+    case 'sum':
+      return 'decimal';
+    case 'concat':
+      return 'text';
+    case 'first':
+      return sourceType;
+    default:
+      return sourceType === 'integer' || sourceType === 'decimal' ? 'decimal' : 'text';
+  }
+}
+
+/**
+ * Join a parent section (501 or 551) with its child tables, one output row per parent row
+ */
+function consolidateLevel(
+  name: string,
+  sectionMap: Map<string, AscRow[]>,
+  parentSection: string,
+  parentColumns: string[] | undefined,
+  children: ChildTableSelection[],
+  joinColumns: string[],
+  options: ConsolidationOptions
+): TableData | null {
+  const parentRows = sectionMap.get(parentSection) || [];
+  if (parentRows.length === 0) return null;
+
+  const separator = options.separator ?? '; ';
+  const parentSchema = getSectionSchema(parentSection);
+  const parentTypes = new Map(parentSchema?.columns.map(column => [column.name, column.type]));
+  const headers = [...(parentColumns || Object.keys(parentRows[0]))];
+  const columnTypes: ColumnType[] = headers.map(header => parentTypes.get(header) || 'text');
+
+  // Values per output column, keyed by parent join key
+  const childColumns: Array<{ header: string; values: Map<string, CellValue> }> = [];
+
+  for (const child of children) {
+    const childRows = sectionMap.get(child.section) || [];
+    if (childRows.length === 0) continue;
+
+    const aggregation = options.aggregation || child.aggregation || 'auto';
+    const childTypes = new Map(getSectionSchema(child.section)?.columns.map(column => [column.name, column.type]));
+
+    // Group child rows by parent key (and pivot value when requested)
+    const groups = new Map<string, Map<string, AscRow[]>>();
+    for (const row of childRows) {
+      const pivot = child.pivotBy ? String(row[child.pivotBy] ?? '') : '';
+      const key = joinKey(row, joinColumns);
+      if (!groups.has(pivot)) groups.set(pivot, new Map());
+      const byKey = groups.get(pivot);
+      if (!byKey?.has(key)) byKey?.set(key, []);
+      byKey?.get(key)?.push(row);
+    }
+
+    const pivotValues = Array.from(groups.keys()).sort();
+    for (const pivot of pivotValues) {
+      for (const column of child.columns) {
+        const header = [child.section, column, pivot].filter(Boolean).join('_');
+        const values = new Map<string, CellValue>();
+        for (const [key, rows] of groups.get(pivot)?.entries() || []) {
+          values.set(key, aggregateValues(rows.map(row => row[column]), aggregation, separator));
+        }
+        headers.push(header);
+        columnTypes.push(aggregatedType(childTypes.get(column) || 'text', aggregation));
+        childColumns.push({ header, values });
+      }
+    }
+  }
+
+  const parentHeaderCount = headers.length - childColumns.length;
+  const rows = parentRows.map(parent => {
+    const key = joinKey(parent, joinColumns);
+    return [
+      ...headers.slice(0, parentHeaderCount).map(header => parent[header] ?? ''),
+      ...childColumns.map(child => child.values.get(key) ?? '')
+    ];
+  });
+
+  return { name, headers, columnTypes, rows };
+}
+
+/**
+ * Build the pedimento-centric consolidated tables:
+ * 501 joined with the pedimento-level tables (one row per pedimento) and
+ * 551 joined with the partida-level tables by pedimento + SecuenciaFraccion
+ */
+export const consolidateSections = (
+  sectionMap: Map<string, AscRow[]>,
+  options: ConsolidationOptions = DEFAULT_CONSOLIDATION
+): TableData[] => {
+  const tables = [
+    consolidateLevel(
+      PEDIMENTOS_SHEET_NAME, sectionMap, '501', options.pedimentoColumns,
+      options.pedimentoChildren || [], PEDIMENTO_JOIN, options
+    ),
+    consolidateLevel(
+      PARTIDAS_SHEET_NAME, sectionMap, '551', options.partidaColumns,
+      options.partidaChildren || [], PARTIDA_JOIN, options
+    )
+  ];
+  return tables.filter((table): table is TableData => table !== null);
+};
@@ -0,0 +1,204 @@
+import type { AscRow } from './parser';
+import type { TableData } from './consolidate';
+import type { RowHighlight } from './xlsxFormatting';
+import { CellValue, ColumnType } from './schema';
+
+/**
+ * Contribution reports built from 510 (paid per pedimento) and 557 (per partida)
+ */
+
+// Abbreviations of the usual ClaveContribucion values (Anexo 22, apéndice 12)
+export const CONTRIBUTION_NAMES: Record<string, string> = {
+  '1': 'DTA',
+  '2': 'CC',
+  '3': 'IVA',
+  '4': 'ISAN',
+  '5': 'IEPS',
+  '6': 'IGI/IGE',
+  '7': 'REC',
+  '11': 'MULT',
+  '15': 'PRV',
+  '22': 'IVA/PRV'
+};
+
+export const SUMMARY_SHEET_NAME = 'Resumen de contribuciones';
+export const RECONCILIATION_SHEET_NAME = 'Conciliación 510 vs 557';
+
+// Amounts are paid in whole pesos, so partida roundings may add up to small differences
+export const RECONCILIATION_TOLERANCE = 1;
+
+export type ReconciliationStatus = 'OK' | 'Diferencia' | 'Sin 557' | 'Sin 510';
+
+const PEDIMENTO_JOIN = ['Patente', 'Pedimento', 'SeccionAduanera'];
+
+/**
+ * Header of a contribution column: "IVA (3)", or the bare code when it isn't known
+ */
+export const contributionLabel = (code: string): string => {
+  const name = CONTRIBUTION_NAMES[code];
+  return name ? `${name} (${code})` : `Clave ${code}`;
+};
+
+function text(value: CellValue | undefined): string {
+  return String(value ?? '').trim();
+}
+
+function amount(value: CellValue | undefined): number {
+  return typeof value === 'number' ? value : 0;
+}
+
+// Avoid floating point noise like 160.07999999999998
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Contribution codes in numeric order
+ */
+function sortCodes(codes: Iterable<string>): string[] {
+  return Array.from(codes).sort((a, b) => Number(a) - Number(b) || a.localeCompare(b));
+}
+
+/**
+ * Payment month of a row ("YYYY-MM"), from the date the parser built in local time
+ */
+function paymentMonth(row: AscRow): string {
+  const date = row.FechaPagoReal;
+  if (!(date instanceof Date)) return '';
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * The aduana is the first two digits of the 3-digit sección aduanera
+ */
+function aduana(row: AscRow): string {
+  const seccion = text(row.SeccionAduanera);
+  return /^\d{3}$/.test(seccion) ? seccion.slice(0, 2) : seccion;
+}
+
+/**
+ * Pivot of the 510 amounts: one row per month, patente and aduana, one column per
+ * contribution type, plus the number of pedimentos, a row total and a grand total row
+ */
+export const buildContributionSummary = (sectionMap: Map<string, AscRow[]>): TableData | null => {
+  const rows = sectionMap.get('510') || [];
+  if (rows.length === 0) return null;
+
+  const groups = new Map<string, { month: string; patente: string; aduana: string; pedimentos: Set<string>; totals: Map<string, number> }>();
+  const codes = new Set<string>();
+
+  for (const row of rows) {
+    const code = text(row.ClaveContribucion);
+    const group = { month: paymentMonth(row), patente: text(row.Patente), aduana: aduana(row) };
+    const groupKey = `${group.month}|${group.patente}|${group.aduana}`;
+    if (!groups.has(groupKey)) {
+      groups.set(groupKey, { ...group, pedimentos: new Set(), totals: new Map() });
+    }
+    const entry = groups.get(groupKey);
+    entry?.pedimentos.add(PEDIMENTO_JOIN.map(column => text(row[column])).join('|'));
+    entry?.totals.set(code, (entry.totals.get(code) || 0) + amount(row.ImportePago));
+    codes.add(code);
+  }
+
+  const orderedCodes = sortCodes(codes);
+  const headers = ['Mes', 'Patente', 'Aduana', 'Pedimentos', ...orderedCodes.map(contributionLabel), 'Total'];
+  const columnTypes: ColumnType[] = ['text', 'text', 'text', 'integer', ...orderedCodes.map((): ColumnType => 'decimal'), 'decimal'];
+
+  const sortedGroups = Array.from(groups.values()).sort((a, b) =>
+    a.month.localeCompare(b.month) || a.patente.localeCompare(b.patente) || a.aduana.localeCompare(b.aduana)
+  );
+
+  const grandTotals = new Map<string, number>();
+  const allPedimentos = new Set<string>();
+  const tableRows: CellValue[][] = sortedGroups.map(group => {
+    group.pedimentos.forEach(pedimento => allPedimentos.add(pedimento));
+    const values = orderedCodes.map(code => {
+      const total = group.totals.get(code) || 0;
+      grandTotals.set(code, (grandTotals.get(code) || 0) + total);
+      return round(total);
+    });
+    return [group.month, group.patente, group.aduana, group.pedimentos.size, ...values, round(values.reduce((sum, value) => sum + value, 0))];
+  });
+
+  const totalValues = orderedCodes.map(code => round(grandTotals.get(code) || 0));
+  tableRows.push(['Total', '', '', allPedimentos.size, ...totalValues, round(totalValues.reduce((sum, value) => sum + value, 0))]);
+
+  return { name: SUMMARY_SHEET_NAME, headers, columnTypes, rows: tableRows };
+};
+
+/**
+ * Compare, per pedimento and contribution, the 510 amount with the sum of its 557 partida amounts
+ * Only contributions that are paid at partida level somewhere in the data are compared
+ * (DTA or PRV are pedimento-level only). Mismatches are listed first.
+ */
+export const buildContributionReconciliation = (
+  sectionMap: Map<string, AscRow[]>,
+  tolerance: number = RECONCILIATION_TOLERANCE
+): TableData | null => {
+  const pedimentoRows = sectionMap.get('510') || [];
+  const partidaRows = sectionMap.get('557') || [];
+  if (pedimentoRows.length === 0 || partidaRows.length === 0) return null;
+
+  interface Entry { row: AscRow; code: string; pedimento: number; partidas: number; partidaCount: number; hasPedimento: boolean; hasPartidas: boolean }
+  const entries = new Map<string, Entry>();
+  const entryFor = (row: AscRow): Entry => {
+    const code = text(row.ClaveContribucion);
+    const key = [...PEDIMENTO_JOIN.map(column => text(row[column])), code].join('|');
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = { row, code, pedimento: 0, partidas: 0, partidaCount: 0, hasPedimento: false, hasPartidas: false };
+      entries.set(key, entry);
+    }
+    return entry;
+  };
+
+  const partidaCodes = new Set<string>();
+  for (const row of partidaRows) {
+    const entry = entryFor(row);
+    entry.partidas += amount(row.ImportePago);
+    entry.partidaCount++;
+    entry.hasPartidas = true;
+    partidaCodes.add(entry.code);
+  }
+  for (const row of pedimentoRows) {
+    if (!partidaCodes.has(text(row.ClaveContribucion))) continue;
+    const entry = entryFor(row);
+    entry.pedimento += amount(row.ImportePago);
+    entry.hasPedimento = true;
+  }
+
+  const status = (entry: Entry): ReconciliationStatus => {
+    if (!entry.hasPartidas) return 'Sin 557';
+    if (!entry.hasPedimento) return 'Sin 510';
+    return Math.abs(entry.pedimento - entry.partidas) <= tolerance ? 'OK' : 'Diferencia';
+  };
+
+  const headers = [
+    'Estado', 'No_Pedimento', 'Patente', 'Pedimento', 'SeccionAduanera', 'Contribución',
+    'Importe_510', 'Importe_557', 'Diferencia', 'Partidas'
+  ];
+  const columnTypes: ColumnType[] = ['text', 'text', 'text', 'text', 'text', 'text', 'decimal', 'decimal', 'decimal', 'integer'];
+
+  const tableRows = Array.from(entries.values())
+    .map(entry => ({ entry, status: status(entry) }))
+    // Mismatches first so they stand out, then by pedimento
+    .sort((a, b) => Number(a.status === 'OK') - Number(b.status === 'OK') ||
+      text(a.entry.row.No_Pedimento).localeCompare(text(b.entry.row.No_Pedimento)) ||
+      Number(a.entry.code) - Number(b.entry.code))
+    .map(({ entry, status }): CellValue[] => [
+      status,
+      entry.row.No_Pedimento ?? '',
+      text(entry.row.Patente),
+      text(entry.row.Pedimento),
+      text(entry.row.SeccionAduanera),
+      contributionLabel(entry.code),
+      entry.hasPedimento ? round(entry.pedimento) : '',
+      entry.hasPartidas ? round(entry.partidas) : '',
+      round(entry.pedimento - entry.partidas),
+      entry.partidaCount
+    ]);
+
+  // Every row that doesn't reconcile is filled in the workbook
+  const highlight: RowHighlight = { column: 'Estado', expected: 'OK' };
+  return { name: RECONCILIATION_SHEET_NAME, headers, columnTypes, rows: tableRows, highlight };
+};
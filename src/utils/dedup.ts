@@ -0,0 +1,137 @@
+import { AscRow, SOURCE_COLUMN } from './parser';
+import type { Diagnostic } from './diagnostics';
+import { CellValue, getSectionSchema } from './schema';
+import { withColumnAfterKey } from './rectifications';
+
+/**
+ * What to do with rows that share the natural key of their section
+ * (typically the same pedimento delivered in two overlapping Data Stage extracts)
+ * - none: keep every row
+ * - first: keep the first row in input order
+ * - latest: keep the row with the most recent FechaPagoReal (the later input on ties)
+ * - flag: keep every row and mark the repeated ones in the Duplicado column
+ */
+export type DedupPolicy = 'none' | 'first' | 'latest' | 'flag';
+
+export const DEDUP_POLICY_LABELS: Record<DedupPolicy, string> = {
+  none: 'Conservar todas las filas',
+  first: 'Conservar la primera fila',
+  latest: 'Conservar la más reciente (FechaPagoReal)',
+  flag: 'Solo marcar los duplicados'
+};
+
+// Added after No_Pedimento in every row with the flag policy: "1 de 2", "2 de 2"... (empty for unique rows)
+export const DUPLICATE_COLUMN = 'Duplicado';
+
+export interface DedupResult {
+  sectionMap: Map<string, AscRow[]>;
+  // Rows removed (or flagged) per section code; sections without duplicates are left out
+  duplicates: Map<string, number>;
+  diagnostics: Diagnostic[];
+}
+
+// Date columns used by the latest policy, in order of preference
+const DATE_COLUMNS = ['FechaPagoReal', 'FechaValidacionPagoR', 'FechaPago'];
+
+/**
+ * Text form of a cell for key comparison (numbers and text compare equal, dates by instant)
+ */
+export const keyPart = (value: CellValue | undefined): string => {
+  if (value instanceof Date) return String(value.getTime());
+  return String(value ?? '');
+};
+
+/**
+ * Natural key of a row: the schema key columns, or the whole row when the section has
+ * no schema or a key column is empty (so incomplete rows only collapse when identical)
+ */
+export const rowKey = (row: AscRow, keyColumns: string[]): string => {
+  const parts = keyColumns.map(column => keyPart(row[column]));
+  if (keyColumns.length > 0 && parts.every(part => part !== '')) {
+    return parts.join('|');
+  }
+  return Object.entries(row)
+    .filter(([column]) => column !== SOURCE_COLUMN)
+    .map(([column, value]) => `${column}=${keyPart(value)}`)
+    .join('|');
+};
+
+/**
+ * Payment date of a row as a timestamp (rows without one lose against any dated row)
+ */
+function rowDate(row: AscRow): number {
+  for (const column of DATE_COLUMNS) {
+    const value = row[column];
+    if (value instanceof Date) return value.getTime();
+  }
+  return -Infinity;
+}
+
+/**
+ * Remove or flag the rows that repeat the natural key of their section
+ * The input map is not modified; sections without duplicates keep their row arrays
+ */
+export const dedupSections = (
+  sectionMap: Map<string, AscRow[]>,
+  policy: DedupPolicy
+): DedupResult => {
+  const result: DedupResult = { sectionMap: new Map(), duplicates: new Map(), diagnostics: [] };
+
+  for (const [sectionCode, rows] of sectionMap.entries()) {
+    if (policy === 'none') {
+      result.sectionMap.set(sectionCode, rows);
+      continue;
+    }
+
+    const keyColumns = getSectionSchema(sectionCode)?.key || [];
+
+    // Row indexes per key, in input order
+    const groups = new Map<string, number[]>();
+    rows.forEach((row, index) => {
+      const key = rowKey(row, keyColumns);
+      const group = groups.get(key);
+      if (group) group.push(index);
+      else groups.set(key, [index]);
+    });
+
+    const duplicates = rows.length - groups.size;
+    if (duplicates === 0) {
+      result.sectionMap.set(sectionCode, rows);
+      continue;
+    }
+
+    if (policy === 'flag') {
+      const flags = new Array<string>(rows.length).fill('');
+      for (const group of groups.values()) {
+        if (group.length < 2) continue;
+        group.forEach((index, position) => {
+          flags[index] = `${position + 1} de ${group.length}`;
+        });
+      }
+      result.sectionMap.set(sectionCode, rows.map((row, index) => withColumnAfterKey(row, DUPLICATE_COLUMN, flags[index])));
+    } else {
+      // Pick the kept row of each group, then keep the kept rows in their original order
+      const kept = new Set<number>();
+      for (const group of groups.values()) {
+        let keptIndex = group[0];
+        if (policy === 'latest') {
+          for (const index of group) {
+            if (rowDate(rows[index]) >= rowDate(rows[keptIndex])) keptIndex = index;
+          }
+        }
+        kept.add(keptIndex);
+      }
+      result.sectionMap.set(sectionCode, rows.filter((_, index) => kept.has(index)));
+    }
+
+    result.duplicates.set(sectionCode, duplicates);
+    result.diagnostics.push({
+      severity: 'info', section: sectionCode,
+      message: policy === 'flag'
+        ? `${duplicates} filas repiten la clave de otra fila (${keyColumns.join(', ') || 'fila completa'}); se marcan en la columna ${DUPLICATE_COLUMN}`
+        : `Se eliminaron ${duplicates} filas duplicadas (clave: ${keyColumns.join(', ') || 'fila completa'})`
+    });
+  }
+
+  return result;
+};
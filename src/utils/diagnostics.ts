@@ -0,0 +1,61 @@
+/**
+ * Structured diagnostics produced while reading a Data Stage drop
+ * (skipped rows, malformed lines, schema mismatches, ...)
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  file?: string;
+  section?: string;
+  // 1-based line in the source file (line 1 is the header row)
+  line?: number;
+  column?: string;
+}
+
+export const SEVERITY_LABELS: Record<DiagnosticSeverity, string> = {
+  error: 'Error',
+  warning: 'Advertencia',
+  info: 'Información'
+};
+
+// Most severe first
+const SEVERITY_RANK: Record<DiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Count diagnostics by severity
+ */
+export const countDiagnostics = (diagnostics: Diagnostic[]): Record<DiagnosticSeverity, number> => {
+  const counts: Record<DiagnosticSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const diagnostic of diagnostics) {
+    counts[diagnostic.severity]++;
+  }
+  return counts;
+};
+
+/**
+ * Sort diagnostics by severity, then file and line (stable for equal entries)
+ */
+export const sortDiagnostics = (diagnostics: Diagnostic[]): Diagnostic[] => {
+  return [...diagnostics].sort((a, b) =>
+    SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+    (a.file || '').localeCompare(b.file || '') ||
+    (a.line || 0) - (b.line || 0)
+  );
+};
+
+/**
+ * One-line description of a diagnostic (used for logs and the CLI)
+ */
+export const formatDiagnostic = (diagnostic: Diagnostic): string => {
+  const location = [
+    diagnostic.file,
+    diagnostic.line !== undefined ? `línea ${diagnostic.line}` : '',
+    diagnostic.column ? `columna ${diagnostic.column}` : ''
+  ].filter(Boolean).join(', ');
+
+  const label = SEVERITY_LABELS[diagnostic.severity];
+  return location ? `[${label}] ${location}: ${diagnostic.message}` : `[${label}] ${diagnostic.message}`;
+};
@@ -0,0 +1,181 @@
+import { AscRow, SOURCE_COLUMN } from './parser';
+import type { TableData } from './consolidate';
+import { DUPLICATE_COLUMN, keyPart, rowKey } from './dedup';
+import { CellValue, ColumnType, getSectionSchema, levelKey } from './schema';
+import { orderSections, SectionCatalog, sectionLevel, sectionSheetName, SheetLanguage } from './sectionCatalog';
+
+/**
+ * Comparison of two Data Stage extractions of the same period (e.g. a resend by the SAT):
+ * rows are matched per section on their natural key (pedimento or partida, plus the
+ * extra key columns of the section) and reported as added, removed or changed
+ */
+
+export const CHANGES_SUMMARY_SHEET_NAME = 'Resumen de cambios';
+
+export type RowChange = 'Modificada' | 'Agregada' | 'Eliminada';
+
+// Changed rows first: they are the ones that need a closer look
+const CHANGE_ORDER: RowChange[] = ['Modificada', 'Agregada', 'Eliminada'];
+
+/**
+ * Row counts of the comparison of one section
+ */
+export interface SectionChanges {
+  code: string;
+  before: number;
+  after: number;
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface DiffOptions {
+  sectionCatalog?: SectionCatalog;
+  sheetLanguage?: SheetLanguage;
+}
+
+export interface DiffResult {
+  // The summary table, then one table per section with changes
+  tables: TableData[];
+  changes: SectionChanges[];
+}
+
+// Columns that differ between deliveries without the data changing
+const IGNORED_COLUMNS = [SOURCE_COLUMN, DUPLICATE_COLUMN];
+
+/**
+ * Summary line of a section comparison
+ */
+export const formatSectionChanges = (changes: SectionChanges): string => {
+  return `Sección ${changes.code}: ${changes.added} filas agregadas, ${changes.removed} eliminadas, ${changes.changed} modificadas`;
+};
+
+/**
+ * Readable key of a row: its No_Partida or No_Pedimento and the extra key columns of the section
+ */
+function displayKey(row: AscRow, keyColumns: string[], extraKeyColumns: number): string {
+  const key = row['No_Partida'] ?? row['No_Pedimento'] ?? '';
+  const extra = keyColumns.slice(keyColumns.length - extraKeyColumns).map(column => keyPart(row[column]));
+  return [keyPart(key), ...extra].filter(Boolean).join(' / ');
+}
+
+/**
+ * Rows per natural key, in input order (repeated keys are matched in order of appearance)
+ */
+function groupByKey(rows: AscRow[], keyColumns: string[]): Map<string, AscRow[]> {
+  const groups = new Map<string, AscRow[]>();
+  for (const row of rows) {
+    const key = rowKey(row, keyColumns);
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  }
+  return groups;
+}
+
+/**
+ * Compare one section, returning its counts and its diff table (null without changes)
+ * Each compared column gets an old and a new value column side by side
+ */
+function diffSection(
+  code: string,
+  before: AscRow[],
+  after: AscRow[],
+  options: DiffOptions
+): { changes: SectionChanges; table: TableData | null } {
+  const schema = getSectionSchema(code);
+  const level = sectionLevel(code, options.sectionCatalog);
+  // Sections the catalog declares (or redeclares) at another level are matched on that level's key
+  const keyColumns = schema?.level === level ? schema.key : levelKey(level);
+  // Key columns after Patente, Pedimento, SeccionAduanera (and SecuenciaFraccion)
+  const extraKeyColumns = keyColumns.length - levelKey(level).length;
+  const columns = Array.from(new Set([...Object.keys(after[0] || {}), ...Object.keys(before[0] || {})]))
+    .filter(column => !IGNORED_COLUMNS.includes(column));
+
+  const entries: Array<{ change: RowChange; old?: AscRow; new?: AscRow; fields: string[] }> = [];
+  const beforeGroups = groupByKey(before, keyColumns);
+
+  for (const [key, afterRows] of groupByKey(after, keyColumns)) {
+    const beforeRows = beforeGroups.get(key) || [];
+    beforeGroups.delete(key);
+    afterRows.forEach((row, index) => {
+      const old = beforeRows[index];
+      if (!old) {
+        entries.push({ change: 'Agregada', new: row, fields: [] });
+        return;
+      }
+      const fields = columns.filter(column => keyPart(old[column]) !== keyPart(row[column]));
+      if (fields.length > 0) entries.push({ change: 'Modificada', old, new: row, fields });
+    });
+    for (const old of beforeRows.slice(afterRows.length)) {
+      entries.push({ change: 'Eliminada', old, fields: [] });
+    }
+  }
+  for (const beforeRows of beforeGroups.values()) {
+    for (const old of beforeRows) entries.push({ change: 'Eliminada', old, fields: [] });
+  }
+
+  const count = (change: RowChange) => entries.filter(entry => entry.change === change).length;
+  const changes: SectionChanges = {
+    code, before: before.length, after: after.length,
+    added: count('Agregada'), removed: count('Eliminada'), changed: count('Modificada')
+  };
+  if (entries.length === 0) return { changes, table: null };
+
+  const columnTypes = new Map(schema?.columns.map(column => [column.name, column.type]));
+  const headers = [
+    'Cambio', 'Clave', 'Campos_modificados', `${SOURCE_COLUMN} (anterior)`, `${SOURCE_COLUMN} (nuevo)`,
+    ...columns.flatMap(column => [`${column} (anterior)`, `${column} (nuevo)`])
+  ];
+  const types: ColumnType[] = [
+    'text', 'text', 'text', 'text', 'text',
+    ...columns.flatMap(column => [columnTypes.get(column) || 'text', columnTypes.get(column) || 'text'])
+  ];
+
+  const rows = entries
+    .sort((a, b) => CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change))
+    .map((entry): CellValue[] => [
+      entry.change,
+      displayKey((entry.new || entry.old) as AscRow, keyColumns, extraKeyColumns),
+      entry.fields.join(', '),
+      entry.old?.[SOURCE_COLUMN] ?? '',
+      entry.new?.[SOURCE_COLUMN] ?? '',
+      ...columns.flatMap(column => [entry.old?.[column] ?? '', entry.new?.[column] ?? ''])
+    ]);
+
+  const name = `Cambios ${sectionSheetName(code, options.sectionCatalog, options.sheetLanguage)}`;
+  return { changes, table: { name, section: code, headers, columnTypes: types, rows } };
+}
+
+/**
+ * Compare the sections of two extractions: a summary table with the counts per
+ * section and a table per section listing its added, removed and changed rows
+ */
+export const diffSections = (
+  before: Map<string, AscRow[]>,
+  after: Map<string, AscRow[]>,
+  options: DiffOptions = {}
+): DiffResult => {
+  const codes = orderSections(Array.from(new Set([...before.keys(), ...after.keys()])), options.sectionCatalog, true);
+  const changes: SectionChanges[] = [];
+  const sectionTables: TableData[] = [];
+
+  for (const code of codes) {
+    const result = diffSection(code, before.get(code) || [], after.get(code) || [], options);
+    changes.push(result.changes);
+    if (result.table) sectionTables.push(result.table);
+  }
+
+  const summary: TableData = {
+    name: CHANGES_SUMMARY_SHEET_NAME,
+    headers: ['Sección', 'Filas_anterior', 'Filas_nueva', 'Agregadas', 'Eliminadas', 'Modificadas', 'Sin_cambios'],
+    columnTypes: ['text', 'integer', 'integer', 'integer', 'integer', 'integer', 'integer'],
+    rows: changes.map(section => [
+      sectionSheetName(section.code, options.sectionCatalog, options.sheetLanguage),
+      section.before, section.after, section.added, section.removed, section.changed,
+      section.after - section.added - section.changed
+    ])
+  };
+
+  return { tables: [summary, ...sectionTables], changes };
+};
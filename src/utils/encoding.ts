@@ -0,0 +1,211 @@
+import type { Diagnostic } from './diagnostics';
+
+/**
+ * Character encoding of the ASC files
+ * Data Stage extracts come in UTF-8 or in ISO-8859-1 / Windows-1252 (TextDecoder treats
+ * "iso-8859-1" as Windows-1252, a superset that also maps the 0x80–0x9F range)
+ */
+
+export type TextEncoding = 'utf-8' | 'windows-1252' | 'utf-16le' | 'utf-16be';
+
+// Auto detects every file on its own; the others force one encoding for all files
+export type EncodingOption = 'auto' | 'utf-8' | 'windows-1252';
+
+export const ENCODING_OPTION_LABELS: Record<EncodingOption, string> = {
+  auto: 'Detectar automáticamente',
+  'utf-8': 'UTF-8',
+  'windows-1252': 'Latin-1 / Windows-1252 (ISO-8859-1)'
+};
+
+const ENCODING_NAMES: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'windows-1252': 'Latin-1 / Windows-1252',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE'
+};
+
+/**
+ * Encoding a file was decoded with and how it was chosen
+ * "ascii" means the file had no byte above 0x7F, so every encoding reads it the same
+ */
+export interface EncodingReport {
+  encoding: TextEncoding | 'ascii';
+  source: 'bom' | 'content' | 'manual';
+  // Byte sequences that weren't valid in the chosen encoding (decoded as U+FFFD)
+  invalidCharacters: number;
+}
+
+/**
+ * Decodes one file chunk by chunk, choosing the encoding as the bytes arrive
+ * Until the first non-ASCII byte shows up the text is plain ASCII, which reads the same
+ * in every supported encoding, so nothing decoded so far ever needs to be redone.
+ */
+export interface StreamDecoder {
+  decode: (chunk: Uint8Array) => string;
+  // Decodes the bytes held back at the end of the file
+  end: () => string;
+  report: () => EncodingReport;
+}
+
+const BOMS: Array<{ bytes: number[]; encoding: TextEncoding }> = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: 'utf-8' },
+  { bytes: [0xff, 0xfe], encoding: 'utf-16le' },
+  { bytes: [0xfe, 0xff], encoding: 'utf-16be' }
+];
+
+// Any decoder reads ASCII the same way
+const asciiDecoder = new TextDecoder('utf-8');
+
+function detectBom(bytes: Uint8Array): TextEncoding | null {
+  const bom = BOMS.find(candidate => candidate.bytes.every((byte, index) => bytes[index] === byte));
+  return bom ? bom.encoding : null;
+}
+
+/**
+ * Check the UTF-8 sequences of bytes from start on
+ * "incomplete" means everything was valid but the bytes end in the middle of a
+ * sequence; sequences counts the complete multi-byte characters seen
+ */
+function checkUtf8(bytes: Uint8Array, start: number): { status: 'valid' | 'invalid' | 'incomplete'; sequences: number } {
+  let sequences = 0;
+  let index = start;
+  while (index < bytes.length) {
+    const byte = bytes[index];
+    if (byte < 0x80) {
+      index++;
+      continue;
+    }
+
+    const length = byte >= 0xc2 && byte <= 0xdf ? 2 : byte >= 0xe0 && byte <= 0xef ? 3 : byte >= 0xf0 && byte <= 0xf4 ? 4 : 0;
+    if (length === 0) return { status: 'invalid', sequences };
+    for (let offset = 1; offset < length; offset++) {
+      if (index + offset >= bytes.length) return { status: 'incomplete', sequences };
+      if ((bytes[index + offset] & 0xc0) !== 0x80) return { status: 'invalid', sequences };
+    }
+    sequences++;
+    index += length;
+  }
+  return { status: 'valid', sequences };
+}
+
+function firstNonAscii(bytes: Uint8Array): number {
+  for (let index = 0; index < bytes.length; index++) {
+    if (bytes[index] >= 0x80) return index;
+  }
+  return -1;
+}
+
+function countReplacements(text: string): number {
+  let count = 0;
+  for (let index = text.indexOf('\uFFFD'); index !== -1; index = text.indexOf('\uFFFD', index + 1)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Create a decoder for one file
+ * With "auto" the encoding comes from the BOM, or else from the first non-ASCII bytes:
+ * valid UTF-8 sequences mean UTF-8, anything else Windows-1252
+ */
+export const createStreamDecoder = (option: EncodingOption = 'auto'): StreamDecoder => {
+  let decoder: TextDecoder | null = null;
+  let report: EncodingReport = { encoding: 'ascii', source: 'content', invalidCharacters: 0 };
+  // Bytes of an undecided file that may be the start of a BOM or a UTF-8 sequence
+  let held: Uint8Array = new Uint8Array(0);
+  let started = false;
+
+  const choose = (encoding: TextEncoding, source: EncodingReport['source']): TextDecoder => {
+    report = { encoding, source, invalidCharacters: 0 };
+    decoder = new TextDecoder(encoding);
+    return decoder;
+  };
+
+  const decodeWith = (active: TextDecoder, bytes: Uint8Array, stream: boolean): string => {
+    const text = active.decode(bytes, { stream });
+    if (report.encoding !== 'windows-1252') report.invalidCharacters += countReplacements(text);
+    return text;
+  };
+
+  const decode = (chunk: Uint8Array): string => {
+    if (decoder) return decodeWith(decoder, chunk, true);
+
+    let bytes = chunk;
+    if (held.length > 0) {
+      bytes = new Uint8Array(held.length + chunk.length);
+      bytes.set(held);
+      bytes.set(chunk, held.length);
+      held = new Uint8Array(0);
+    }
+
+    if (option !== 'auto') return decodeWith(choose(option, 'manual'), bytes, true);
+
+    if (!started) {
+      // A BOM split across chunks: wait for the rest of it
+      if (bytes.length < 3 && BOMS.some(bom => bytes.every((byte, index) => bom.bytes[index] === byte))) {
+        held = bytes.slice();
+        return '';
+      }
+      started = true;
+      const bom = detectBom(bytes);
+      if (bom) return decodeWith(choose(bom, 'bom'), bytes, true);
+    }
+
+    const nonAscii = firstNonAscii(bytes);
+    if (nonAscii === -1) return asciiDecoder.decode(bytes);
+
+    const { status, sequences } = checkUtf8(bytes, nonAscii);
+    if (status === 'incomplete' && sequences === 0) {
+      // Only the start of a sequence so far: wait for the next chunk to decide
+      held = bytes.slice(nonAscii);
+      return asciiDecoder.decode(bytes.subarray(0, nonAscii));
+    }
+    return decodeWith(choose(status === 'invalid' ? 'windows-1252' : 'utf-8', 'content'), bytes, true);
+  };
+
+  const end = (): string => {
+    if (decoder) return decodeWith(decoder, new Uint8Array(0), false);
+    if (held.length === 0) return '';
+    // The file ends in the middle of a UTF-8 sequence, so it isn't UTF-8
+    const text = decodeWith(choose('windows-1252', 'content'), held, false);
+    held = new Uint8Array(0);
+    return text;
+  };
+
+  return { decode, end, report: () => report };
+};
+
+/**
+ * Decode a whole file held in memory
+ */
+export const decodeBytes = (bytes: Uint8Array, option: EncodingOption = 'auto'): { text: string; report: EncodingReport } => {
+  const decoder = createStreamDecoder(option);
+  const text = decoder.decode(bytes) + decoder.end();
+  return { text, report: decoder.report() };
+};
+
+/**
+ * Diagnostics of a decoded file: the encoding used (info) and, when some bytes
+ * couldn't be decoded, a warning suggesting the other encoding
+ */
+export const encodingDiagnostics = (report: EncodingReport, file: string): Diagnostic[] => {
+  const how = report.source === 'bom' ? 'detectada por la marca BOM'
+    : report.source === 'manual' ? 'elegida manualmente'
+    : 'detectada por el contenido';
+  const diagnostics: Diagnostic[] = [{
+    severity: 'info', file,
+    message: report.encoding === 'ascii'
+      ? 'Codificación: ASCII (sin caracteres acentuados; se lee igual en UTF-8 y Latin-1)'
+      : `Codificación: ${ENCODING_NAMES[report.encoding]} (${how})`
+  }];
+
+  if (report.invalidCharacters > 0) {
+    diagnostics.push({
+      severity: 'warning', file,
+      message: `${report.invalidCharacters} ${report.invalidCharacters === 1 ? 'carácter no válido' : 'caracteres no válidos'} ` +
+        `en ${report.encoding === 'ascii' ? 'UTF-8' : ENCODING_NAMES[report.encoding]} se reemplazaron por "\uFFFD"; ` +
+        'pruebe la codificación Latin-1 / Windows-1252'
+    });
+  }
+  return diagnostics;
+};
@@ -1,49 +1,24 @@
 import * as XLSX from 'xlsx';
+import type { AscRow } from './parser';
+import { CellValue, ColumnType, getSectionSchema } from './schema';
+import { Diagnostic, SEVERITY_LABELS, sortDiagnostics } from './diagnostics';
+import { ConsolidationOptions, consolidateSections, TableData } from './consolidate';
+import { orderSections, SectionCatalog, sectionSheetName, SheetLanguage } from './sectionCatalog';
+import { SectionSelection, selectedColumns } from './selection';
+import { formatWorkbook, HIGHLIGHT_KEY, RowHighlight } from './xlsxFormatting';
 
-// Custom order for sections (exact order specified by user)
-const SECTION_ORDER = [
-  // Tablas con información a nivel de pedimento
-  '501', '502', '503', '504', '505',
-  '506', '507', '508', '509', '510',
-  '511', '512', '520', '701', '702',
-  // Tablas con información a nivel de partida
-  '551', '552', '553', '554', '555',
-  '556', '557', '558',
-  // Other common codes
-  '160', '240', '430'
-];
-
-// Section names mapping with more descriptive names
-const SECTION_NAMES: Record<string, string> = {
-  // Tablas con información a nivel de pedimento
-  '501': 'Datos generales',
-  '502': 'Transporte de las mercancías',
-  '503': 'Guías',
-  '504': 'Contenedores',
-  '505': 'Facturas',
-  '506': 'Fechas del pedimento',
-  '507': 'Casos del pedimento',
-  '508': 'Cuentas aduaneras de garantía',
-  '509': 'Tasas del pedimento',
-  '510': 'Contribuciones del pedimento',
-  '511': 'Observaciones del pedimento',
-  '512': 'Descargos de mercancías',
-  '520': 'Destinatarios de la mercancía',
-  '701': 'Rectificaciones',
-  '702': 'Diferencias de contribuciones',
-  // Tablas con información a nivel de partida
-  '551': 'Partidas',
-  '552': 'Mercancías',
-  '553': 'Permiso de la partida',
-  '554': 'Casos de la partida',
-  '555': 'Cuentas aduaneras (partida)',
-  '556': 'Tasas de contribuciones (partida)',
-  '557': 'Contribuciones de la partida',
-  '558': 'Observaciones de la partida',
-  // Other common codes
-  '160': 'Sección 160',
-  '240': 'Sección 240',
-  '430': 'Sección 430'
+// Display format for Data Stage date-time columns
+const DATE_FORMAT = 'yyyy-mm-dd hh:mm:ss';
+
+// Excel number format per column type
+// Text-like columns use "@" so identifiers keep their leading zeros when re-typed
+const NUMBER_FORMATS: Record<ColumnType, string> = {
+  text: '@',
+  rfc: '@',
+  fraccion: '@',
+  integer: '0',
+  decimal: '#,##0.00####',
+  datetime: DATE_FORMAT
 };
 
 /**
@@ -55,19 +30,11 @@ function sanitizeSheetName(name: string): string {
   let sanitized = name.substring(0, 31);
   
   // Replace illegal characters
-  sanitized = sanitized.replace(/[\[\]\*\?\/\\\:]/g, '_');
+  sanitized = sanitized.replace(/[[\]*?/\\:]/g, '_');
   
   return sanitized;
 }
 
-/**
- * Get formatted sheet name with section code prefix
- */
-function getFormattedSheetName(sectionCode: string): string {
-  const sectionName = SECTION_NAMES[sectionCode] || `Section ${sectionCode}`;
-  return `${sectionCode} ${sectionName}`;
-}
-
 /**
  * Calculate the width of a string in Excel character units
  * This is an approximation as actual width depends on font and characters
@@ -102,7 +69,7 @@ function calculateColumnWidth(str: string): number {
 /**
  * Auto-size columns based on header and content widths
  */
-function autoSizeColumns(worksheet: XLSX.WorkSheet, headers: string[], data: string[][]): void {
+function autoSizeColumns(worksheet: XLSX.WorkSheet, headers: string[], data: CellValue[][]): void {
   // Initialize column widths based on headers
   const colWidths: number[] = headers.map(header => calculateColumnWidth(header));
   
@@ -110,7 +77,8 @@ function autoSizeColumns(worksheet: XLSX.WorkSheet, headers: string[], data: str
   data.forEach(row => {
     row.forEach((cell, colIndex) => {
       if (colIndex < colWidths.length) {
-        const cellWidth = calculateColumnWidth(String(cell));
+        // Dates are measured by their displayed format, not their JS string
+        const cellWidth = calculateColumnWidth(cell instanceof Date ? DATE_FORMAT : String(cell));
         if (cellWidth > colWidths[colIndex]) {
           colWidths[colIndex] = cellWidth;
         }
@@ -131,118 +99,338 @@ function autoSizeColumns(worksheet: XLSX.WorkSheet, headers: string[], data: str
   });
 }
 
+/**
+ * Convert a local date to an Excel serial number (days since 1899-12-30)
+ * Computed from the wall-clock components so the result doesn't depend on the time zone
+ */
+function toExcelDate(date: Date): number {
+  const utc = Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds()
+  );
+  return (utc - Date.UTC(1899, 11, 30)) / (24 * 60 * 60 * 1000);
+}
+
+/**
+ * Convert an Excel serial number back to a local date (the inverse of toExcelDate),
+ * rounded to the second
+ */
+export const fromExcelDate = (serial: number): Date => {
+  const utc = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 24 * 60 * 60) * 1000);
+  return new Date(
+    utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(),
+    utc.getUTCHours(), utc.getUTCMinutes(), utc.getUTCSeconds()
+  );
+};
+
+/**
+ * Build a typed cell for a value
+ * Numbers and dates get the number format of their column type; everything else is text
+ */
+function createTypedCell(value: CellValue, type: ColumnType): XLSX.CellObject | null {
+  if (value === '' || value === null || value === undefined) return null;
+  
+  if (value instanceof Date) {
+    return { t: 'n', v: toExcelDate(value), z: NUMBER_FORMATS.datetime };
+  }
+  
+  if (typeof value === 'number') {
+    const format = type === 'integer' || type === 'decimal' ? NUMBER_FORMATS[type] : NUMBER_FORMATS.decimal;
+    return { t: 'n', v: value, z: format };
+  }
+  
+  // Values that didn't match their numeric/date type stay as text
+  return { t: 's', v: value, z: '@' };
+}
+
+/**
+ * Resolve the column type for each header of a section
+ * Columns outside the schema (and the synthetic No_Pedimento) are treated as text
+ */
+function getColumnTypes(sectionCode: string, headers: string[]): ColumnType[] {
+  const schema = getSectionSchema(sectionCode);
+  const columnTypes = new Map(schema?.columns.map(column => [column.name, column.type]));
+  return headers.map(header => columnTypes.get(header) || 'text');
+}
+
+/**
+ * Create a worksheet with a header row and typed data cells
+ */
+function createTypedSheet(headers: string[], dataRows: CellValue[][], columnTypes: ColumnType[]): XLSX.WorkSheet {
+  const worksheet: XLSX.WorkSheet = {};
+  
+  headers.forEach((header, c) => {
+    worksheet[XLSX.utils.encode_cell({ r: 0, c })] = { t: 's', v: header };
+  });
+  
+  dataRows.forEach((row, r) => {
+    row.forEach((value, c) => {
+      const cell = createTypedCell(value, columnTypes[c]);
+      if (cell) {
+        worksheet[XLSX.utils.encode_cell({ r: r + 1, c })] = cell;
+      }
+    });
+  });
+  
+  worksheet['!ref'] = XLSX.utils.encode_range({
+    s: { r: 0, c: 0 },
+    e: { r: dataRows.length, c: Math.max(headers.length - 1, 0) }
+  });
+  
+  return worksheet;
+}
+
 /**
  * Apply styling to the worksheet
+ * The header autofilter also marks the sheet for formatWorkbook, which turns it into an
+ * Excel Table with a bold colored header and frozen panes when the file is written
  */
 function applyWorksheetStyling(worksheet: XLSX.WorkSheet): void {
-  // Make the header row bold and with a background color
   const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1:A1');
   
-  // Set properties for entire sheet
-  if (!worksheet['!sheetFormat']) {
-    worksheet['!sheetFormat'] = {};
-  }
-  
   // Enable filtering for header row
   if (range.e.r > 0) {
     worksheet['!autofilter'] = { ref: `A1:${XLSX.utils.encode_col(range.e.c)}1` };
   }
 }
 
+export interface WorkbookOptions {
+  // When provided, a "Validación" sheet listing every diagnostic is appended
+  diagnostics?: Diagnostic[];
+  // When provided, pedimento/partida consolidated sheets are added before the section sheets
+  consolidation?: ConsolidationOptions;
+  // Derived report sheets (rectification history...), appended after the section sheets
+  reports?: TableData[];
+  // Section names, order and included sections (default: the bundled catalog)
+  sectionCatalog?: SectionCatalog;
+  // Language of the section sheet names (default: Spanish)
+  sheetLanguage?: SheetLanguage;
+  // Sections and columns chosen in the review step (default: every section and column)
+  selection?: SectionSelection;
+  // Put an "Índice" sheet linking to every sheet first
+  indexSheet?: boolean;
+}
+
 /**
- * Generate Excel file from parsed ASC data
+ * Append a sheet for derived tables (consolidated views, reports)
  */
-export const generateExcel = (
-  sectionMap: Map<string, Array<Record<string, string>>>
-): Blob => {
-  try {
-    // Create a new workbook
-    const workbook = XLSX.utils.book_new();
-    
-    // Create a sorted list of section codes based on the predefined order
-    const availableSections = Array.from(sectionMap.keys());
-    const orderedSections: string[] = [];
+function appendTableSheet(workbook: XLSX.WorkBook, table: TableData): void {
+  const worksheet = createTypedSheet(table.headers, table.rows, table.columnTypes);
+  autoSizeColumns(worksheet, table.headers, table.rows);
+  applyWorksheetStyling(worksheet);
+  if (table.highlight) {
+    worksheet[HIGHLIGHT_KEY] = table.highlight;
+  }
+  XLSX.utils.book_append_sheet(workbook, worksheet, sanitizeSheetName(table.name));
+}
+
+export const VALIDATION_SHEET_NAME = 'Validación';
+
+export const INDEX_SHEET_NAME = 'Índice';
+
+/**
+ * Put an "Índice" sheet first, linking to every sheet of the workbook with its number of data rows
+ * An index already in the workbook (e.g. kept from an updated workbook) is replaced
+ */
+export const addIndexSheet = (workbook: XLSX.WorkBook): void => {
+  const previous = workbook.SheetNames.indexOf(INDEX_SHEET_NAME);
+  if (previous >= 0) {
+    workbook.SheetNames.splice(previous, 1);
+    delete workbook.Sheets[INDEX_SHEET_NAME];
+  }
+
+  const headers = ['Hoja', 'Filas'];
+  const rows: CellValue[][] = workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name]['!ref'];
+    return [name, ref ? XLSX.utils.decode_range(ref).e.r : 0];
+  });
+  
+  const worksheet = createTypedSheet(headers, rows, ['text', 'integer']);
+  workbook.SheetNames.forEach((name, index) => {
+    const cell = worksheet[XLSX.utils.encode_cell({ r: index + 1, c: 0 })];
+    cell.l = { Target: `#'${name.replace(/'/g, "''")}'!A1`, Tooltip: `Ir a ${name}` };
+  });
+  autoSizeColumns(worksheet, headers, rows);
+  applyWorksheetStyling(worksheet);
+  
+  XLSX.utils.book_append_sheet(workbook, worksheet, INDEX_SHEET_NAME);
+  workbook.SheetNames.unshift(workbook.SheetNames.pop() as string);
+};
+
+/**
+ * Table of the "Validación" sheet with one row per diagnostic
+ */
+function createValidationTable(diagnostics: Diagnostic[]): TableData {
+  const headers = ['Severidad', 'Archivo', 'Línea', 'Sección', 'Columna', 'Mensaje'];
+  const rows: CellValue[][] = sortDiagnostics(diagnostics).map(diagnostic => [
+    SEVERITY_LABELS[diagnostic.severity],
+    diagnostic.file || '',
+    diagnostic.line ?? '',
+    diagnostic.section || '',
+    diagnostic.column || '',
+    diagnostic.message
+  ]);
+  
+  return { name: VALIDATION_SHEET_NAME, headers, columnTypes: ['text', 'text', 'integer', 'text', 'text', 'text'], rows };
+}
+
+export const EXCEL_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Data rows that fit in one Excel sheet (1,048,576 rows minus the header)
+export const EXCEL_MAX_DATA_ROWS = 1_048_575;
+
+/**
+ * A table too long for one sheet and the number of sheets (or workbooks) it was split into
+ */
+export interface TableSplit {
+  name: string;
+  section?: string;
+  rows: number;
+  parts: number;
+}
+
+/**
+ * Name of a continuation sheet ("557 Contribuciones de la pa (2)"), shortened so the
+ * suffix survives the 31 character limit
+ */
+function continuationSheetName(name: string, part: number): string {
+  const suffix = ` (${part})`;
+  return sanitizeSheetName(name).substring(0, 31 - suffix.length) + suffix;
+}
+
+/**
+ * Whether a sheet holds a table: its own sheet or one of its continuation sheets
+ */
+export const isTableSheetName = (sheetName: string, tableName: string): boolean => {
+  if (sheetName === sanitizeSheetName(tableName)) return true;
+  const part = / \((\d+)\)$/.exec(sheetName);
+  return part !== null && sheetName === continuationSheetName(tableName, Number(part[1]));
+};
+
+/**
+ * Split a table into parts of at most maxRows rows, each with the headers
+ * Tables that fit are returned as they are
+ */
+export const splitTable = (table: TableData, maxRows: number = EXCEL_MAX_DATA_ROWS): TableData[] => {
+  if (table.rows.length <= maxRows) return [table];
+  
+  const parts: TableData[] = [];
+  for (let start = 0; start < table.rows.length; start += maxRows) {
+    parts.push({ ...table, rows: table.rows.slice(start, start + maxRows) });
+  }
+  return parts;
+};
+
+/**
+ * Tables that exceed the row limit, with the number of parts each is split into
+ */
+export const findTableSplits = (tables: TableData[], maxRows: number = EXCEL_MAX_DATA_ROWS): TableSplit[] => {
+  return tables
+    .filter(table => table.rows.length > maxRows)
+    .map(table => ({
+      name: table.name,
+      section: table.section,
+      rows: table.rows.length,
+      parts: Math.ceil(table.rows.length / maxRows)
+    }));
+};
+
+/**
+ * Every table of the output in sheet order: consolidated views, section tables (catalog
+ * order, narrowed to the selection), reports and the validation table
+ * Shared by all output formats so they contain the same tables
+ */
+export const collectTables = (
+  sectionMap: Map<string, AscRow[]>,
+  options: WorkbookOptions = {}
+): TableData[] => {
+  const tables: TableData[] = [];
+  
+  // Consolidated views go first so analysts land on them
+  if (options.consolidation) {
+    tables.push(...consolidateSections(sectionMap, options.consolidation));
+  }
+  
+  // Section tables in catalog order (unknown sections last); without a selection
+  // the sections excluded in the catalog are left out
+  const { selection } = options;
+  const availableSections = Array.from(sectionMap.keys())
+    .filter(code => !selection || code in selection);
+  const orderedSections = orderSections(availableSections, options.sectionCatalog, Boolean(selection));
+  
+  for (const sectionCode of orderedSections) {
+    const rows = sectionMap.get(sectionCode) || [];
     
-    // First add sections in the predefined order if they exist
-    for (const code of SECTION_ORDER) {
-      if (sectionMap.has(code)) {
-        orderedSections.push(code);
-      }
-    }
+    // Get headers from the first row, narrowed to the selected columns
+    const headers = rows.length > 0 ? selectedColumns(sectionCode, Object.keys(rows[0]), selection) : [];
     
-    // Then add any remaining sections that weren't in the predefined order
-    for (const code of availableSections) {
-      if (!orderedSections.includes(code)) {
-        orderedSections.push(code);
+    tables.push({
+      name: sectionSheetName(sectionCode, options.sectionCatalog, options.sheetLanguage),
+      section: sectionCode,
+      headers,
+      // Cells typed by the section schema
+      columnTypes: getColumnTypes(sectionCode, headers),
+      rows: headers.length > 0 ? rows.map(row => headers.map(header => row[header] ?? '')) : []
+    });
+  }
+  
+  tables.push(...(options.reports || []));
+  
+  // The validation report goes after the section tables
+  if (options.diagnostics) {
+    tables.push(createValidationTable(options.diagnostics));
+  }
+  
+  return tables;
+};
+
+/**
+ * Build a workbook with one sheet per table
+ * Tables longer than maxRows continue on extra sheets ("557 Contribuciones (2)"...)
+ * placed right after their first sheet
+ */
+export const buildWorkbookFromTables = (tables: TableData[], maxRows: number = EXCEL_MAX_DATA_ROWS): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  
+  for (const table of tables) {
+    try {
+      if (table.headers.length === 0) {
+        // Create an empty sheet for sections with no data
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([]), sanitizeSheetName(table.name));
+        continue;
       }
+      splitTable(table, maxRows).forEach((part, index) => {
+        appendTableSheet(workbook, index === 0 ? part : { ...part, name: continuationSheetName(table.name, index + 1) });
+      });
+    } catch (sheetError) {
+      console.error(`Error creating sheet ${table.name}:`, sheetError);
+      // Create an error sheet
+      const errorWorksheet = XLSX.utils.aoa_to_sheet([
+        ["Error processing this section"],
+        [String(sheetError)]
+      ]);
+      const errorSheetName = sanitizeSheetName(`Error_${table.section || table.name}`);
+      XLSX.utils.book_append_sheet(workbook, errorWorksheet, errorSheetName);
     }
-    
-    // Process each section in the ordered array
-    for (const sectionCode of orderedSections) {
-      try {
-        const rows = sectionMap.get(sectionCode) || [];
-        
-        // Format and sanitize sheet name with section code prefix
-        const sheetName = sanitizeSheetName(getFormattedSheetName(sectionCode));
-        
-        if (rows.length === 0) {
-          // Create an empty sheet for sections with no data
-          const worksheet = XLSX.utils.aoa_to_sheet([]);
-          XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
-          continue;
-        }
-        
-        // Get headers from the first row
-        const headers = Object.keys(rows[0] || {});
-        
-        if (headers.length === 0) {
-          console.warn(`No headers found for section ${sectionCode}`);
-          const worksheet = XLSX.utils.aoa_to_sheet([]);
-          XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
-          continue;
-        }
-        
-        // Prepare data for the sheet
-        const dataRows = rows.map(row => headers.map(header => row[header] || ''));
-        const sheetData = [
-          // Headers
-          headers,
-          // Data rows
-          ...dataRows
-        ];
-        
-        // Create worksheet
-        const worksheet = XLSX.utils.aoa_to_sheet(sheetData);
-        
-        // Auto-size columns based on content
-        autoSizeColumns(worksheet, headers, dataRows);
-        
-        // Apply styling (headers, etc.)
-        applyWorksheetStyling(worksheet);
-        
-        // Add worksheet to workbook
-        XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
-      } catch (sheetError) {
-        console.error(`Error creating sheet for section ${sectionCode}:`, sheetError);
-        // Create an error sheet
-        const errorWorksheet = XLSX.utils.aoa_to_sheet([
-          ["Error processing this section"],
-          [String(sheetError)]
-        ]);
-        const errorSheetName = sanitizeSheetName(`Error_${sectionCode}`);
-        XLSX.utils.book_append_sheet(workbook, errorWorksheet, errorSheetName);
-      }
+  }
+  
+  return workbook;
+};
+
+/**
+ * Build the workbook for parsed ASC data (one sheet per section code)
+ * Shared by the web app and the Node entry point so both produce the same output
+ */
+export const buildWorkbook = (
+  sectionMap: Map<string, AscRow[]>,
+  options: WorkbookOptions = {}
+): XLSX.WorkBook => {
+  try {
+    const workbook = buildWorkbookFromTables(collectTables(sectionMap, options));
+    if (options.indexSheet) {
+      addIndexSheet(workbook);
     }
-    
-    // Generate Excel file as an array buffer
-    const excelBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
-    
-    // Convert to Blob
-    const blob = new Blob([excelBuffer], { 
-      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' 
-    });
-    
-    return blob;
+    return workbook;
   } catch (error) {
     console.error("Error generating Excel file:", error);
     // Create a simple error workbook
@@ -252,18 +440,45 @@ export const generateExcel = (
       [String(error)]
     ]);
     XLSX.utils.book_append_sheet(workbook, errorWorksheet, "Error");
-    
-    const excelBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
-    return new Blob([excelBuffer], {
-      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-    });
+    return workbook;
   }
 };
 
 /**
- * Download Excel file
+ * Generate Excel file from parsed ASC data
+ */
+export const generateExcel = async (
+  sectionMap: Map<string, AscRow[]>,
+  options: WorkbookOptions = {}
+): Promise<Blob> => {
+  return workbookToBlob(buildWorkbook(sectionMap, options));
+};
+
+/**
+ * Serialize a workbook to .xlsx bytes, with the header styles, frozen panes, Excel Tables
+ * and highlighted rows SheetJS can't write (formatWorkbook)
+ */
+export const workbookToBytes = async (workbook: XLSX.WorkBook): Promise<Uint8Array> => {
+  const excelBuffer: ArrayBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  const highlights = new Map<string, RowHighlight>();
+  for (const name of workbook.SheetNames) {
+    const highlight = workbook.Sheets[name][HIGHLIGHT_KEY];
+    if (highlight) highlights.set(name, highlight);
+  }
+  return formatWorkbook(new Uint8Array(excelBuffer), highlights);
+};
+
+/**
+ * Serialize a workbook to an .xlsx Blob
+ */
+export const workbookToBlob = async (workbook: XLSX.WorkBook): Promise<Blob> => {
+  return new Blob([await workbookToBytes(workbook)], { type: EXCEL_MIME_TYPE });
+};
+
+/**
+ * Download the generated file (the name includes its extension)
  */
-export const downloadExcel = (blob: Blob, fileName: string = 'merged_data'): void => {
+export const downloadExcel = (blob: Blob, fileName: string = 'merged_data.xlsx'): void => {
   try {
     // Create a download link
     const url = URL.createObjectURL(blob);
@@ -271,7 +486,7 @@ export const downloadExcel = (blob: Blob, fileName: string = 'merged_data'): voi
     
     // Set link properties
     link.href = url;
-    link.download = `${fileName}.xlsx`;
+    link.download = fileName;
     
     // Append to body, click, and remove
     document.body.appendChild(link);
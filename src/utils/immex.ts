@@ -0,0 +1,189 @@
+import type { AscRow } from './parser';
+import type { TableData } from './consolidate';
+import type { Diagnostic } from './diagnostics';
+import { CellValue, ColumnType } from './schema';
+
+/**
+ * IMMEX control report in the style of the Anexo 24 inventory: the partidas (551) of
+ * temporary imports, returns and changes of regime, with the cases (554) and serial
+ * numbers (552) of each partida, and the balance per fracción still pending return
+ */
+
+export const MOVEMENTS_SHEET_NAME = 'Anexo 24 IMMEX';
+export const BALANCE_SHEET_NAME = 'Saldos IMMEX por fracción';
+
+/**
+ * How a movement affects the temporarily imported balance
+ * - importacion: temporary import (adds to the balance)
+ * - retorno: return abroad or virtual transfer to another IMMEX (discharges it)
+ * - cambio: change of regime from temporary to definitive (discharges it)
+ */
+export type ImmexMovement = 'importacion' | 'retorno' | 'cambio';
+
+export const IMMEX_MOVEMENT_LABELS: Record<ImmexMovement, string> = {
+  importacion: 'Importación temporal',
+  retorno: 'Retorno',
+  cambio: 'Cambio de régimen'
+};
+
+// Claves de pedimento (Anexo 22, apéndice 2) of IMMEX operations, by TipoOperacion
+// (1 importación, 2 exportación); V1 transfers count on both sides
+export const IMMEX_DOCUMENTS: Record<string, Partial<Record<'1' | '2', ImmexMovement>>> = {
+  IN: { '1': 'importacion' },
+  AF: { '1': 'importacion' },
+  V1: { '1': 'importacion', '2': 'retorno' },
+  RT: { '2': 'retorno' },
+  H1: { '2': 'retorno' },
+  F4: { '1': 'cambio' },
+  F5: { '1': 'cambio' }
+};
+
+export interface ImmexReport {
+  movements: TableData;
+  balance: TableData;
+  diagnostics: Diagnostic[];
+}
+
+const PEDIMENTO_JOIN = ['Patente', 'Pedimento', 'SeccionAduanera'];
+const PARTIDA_JOIN = [...PEDIMENTO_JOIN, 'SecuenciaFraccion'];
+
+function text(value: CellValue | undefined): string {
+  return String(value ?? '').trim();
+}
+
+function quantity(value: CellValue | undefined): number {
+  return typeof value === 'number' ? value : 0;
+}
+
+// Avoid floating point noise like 160.07999999999998
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function joinKey(row: AscRow, columns: string[]): string {
+  return columns.map(column => text(row[column])).join('|');
+}
+
+/**
+ * Values of a partida's child rows, joined per partida ("IM 1234-2006; PM 5")
+ */
+function childValues(rows: AscRow[], format: (row: AscRow) => string): Map<string, string> {
+  const values = new Map<string, string[]>();
+  for (const row of rows) {
+    const value = format(row);
+    if (!value) continue;
+    const key = joinKey(row, PARTIDA_JOIN);
+    const partidaValues = values.get(key) || [];
+    if (!partidaValues.includes(value)) partidaValues.push(value);
+    values.set(key, partidaValues);
+  }
+  return new Map(Array.from(values, ([key, partidaValues]) => [key, partidaValues.join('; ')]));
+}
+
+/**
+ * Build the IMMEX movements and balance tables from the parsed sections
+ * The clave de pedimento and operation type come from the partida itself (551) or,
+ * when it doesn't carry them, from the general data of its pedimento (501)
+ */
+export const buildImmexReport = (sectionMap: Map<string, AscRow[]>): ImmexReport | null => {
+  const partidas = sectionMap.get('551') || [];
+  if (partidas.length === 0) return null;
+
+  const pedimentos = new Map((sectionMap.get('501') || []).map(row => [joinKey(row, PEDIMENTO_JOIN), row]));
+  const cases = childValues(sectionMap.get('554') || [], row =>
+    [text(row.ClaveCaso), text(row.IdentificadorCaso), text(row.ComplementoCaso)].filter(Boolean).join(' ')
+  );
+  const serials = childValues(sectionMap.get('552') || [], row => text(row.VinNumeroSerie));
+
+  const movements: Array<{ movement: ImmexMovement; row: AscRow; date: CellValue; document: string }> = [];
+  for (const row of partidas) {
+    const pedimento = pedimentos.get(joinKey(row, PEDIMENTO_JOIN));
+    const document = text(row.ClaveDocumento) || text(pedimento?.ClaveDocumento);
+    const operation = text(row.TipoOperacion) || text(pedimento?.TipoOperacion);
+    const movement = IMMEX_DOCUMENTS[document]?.[operation as '1' | '2'];
+    if (!movement) continue;
+    movements.push({ movement, row, document, date: row.FechaPagoReal || pedimento?.FechaPagoReal || '' });
+  }
+  if (movements.length === 0) return null;
+
+  // Chronological, like the inventory it feeds
+  const time = (date: CellValue) => (date instanceof Date ? date.getTime() : Infinity);
+  movements.sort((a, b) => time(a.date) - time(b.date) ||
+    text(a.row.No_Pedimento).localeCompare(text(b.row.No_Pedimento)) ||
+    quantity(a.row.SecuenciaFraccion) - quantity(b.row.SecuenciaFraccion));
+
+  const movementHeaders = [
+    'Movimiento', 'No_Pedimento', 'No_Partida', 'ClaveDocumento', 'FechaPagoReal', 'Fraccion',
+    'DescripcionMercancia', 'CantidadUMTarifa', 'UnidadMedidaTarifa', 'CantidadUMComercial',
+    'UnidadMedidaComercial', 'ValorDolares', 'PaisOrigenDestino', 'Identificadores', 'NumerosSerie'
+  ];
+  const movementTypes: ColumnType[] = [
+    'text', 'text', 'text', 'text', 'datetime', 'fraccion', 'text', 'decimal', 'text', 'decimal',
+    'text', 'decimal', 'text', 'text', 'text'
+  ];
+
+  interface Balance { fraccion: string; unit: string; importado: number; retornado: number; cambio: number; pedimentos: Set<string> }
+  const balances = new Map<string, Balance>();
+
+  const movementRows = movements.map(({ movement, row, document, date }): CellValue[] => {
+    const fraccion = text(row.Fraccion);
+    const unit = text(row.UnidadMedidaTarifa);
+    const key = `${fraccion}|${unit}`;
+    if (!balances.has(key)) {
+      balances.set(key, { fraccion, unit, importado: 0, retornado: 0, cambio: 0, pedimentos: new Set() });
+    }
+    const balance = balances.get(key) as Balance;
+    const amount = quantity(row.CantidadUMTarifa);
+    if (movement === 'importacion') balance.importado += amount;
+    else if (movement === 'retorno') balance.retornado += amount;
+    else balance.cambio += amount;
+    balance.pedimentos.add(text(row.No_Pedimento));
+
+    const partidaKey = joinKey(row, PARTIDA_JOIN);
+    return [
+      IMMEX_MOVEMENT_LABELS[movement],
+      row.No_Pedimento ?? '',
+      row.No_Partida ?? '',
+      document,
+      date,
+      fraccion,
+      row.DescripcionMercancia ?? '',
+      row.CantidadUMTarifa ?? '',
+      unit,
+      row.CantidadUMComercial ?? '',
+      row.UnidadMedidaComercial ?? '',
+      row.ValorDolares ?? '',
+      row.PaisOrigenDestino ?? '',
+      cases.get(partidaKey) || '',
+      serials.get(partidaKey) || ''
+    ];
+  });
+
+  const diagnostics: Diagnostic[] = [];
+  const balanceRows = Array.from(balances.values())
+    .sort((a, b) => a.fraccion.localeCompare(b.fraccion) || a.unit.localeCompare(b.unit))
+    .map((balance): CellValue[] => {
+      const pending = round(balance.importado - balance.retornado - balance.cambio);
+      if (pending < 0) {
+        diagnostics.push({
+          severity: 'warning', section: '551',
+          message: `Fracción ${balance.fraccion}: se descargaron ${-pending} unidades (UMT) más de las importadas temporalmente en los datos; la importación puede estar en una entrega anterior`
+        });
+      }
+      return [
+        balance.fraccion, balance.unit, round(balance.importado), round(balance.retornado),
+        round(balance.cambio), pending, balance.pedimentos.size
+      ];
+    });
+
+  return {
+    movements: { name: MOVEMENTS_SHEET_NAME, headers: movementHeaders, columnTypes: movementTypes, rows: movementRows },
+    balance: {
+      name: BALANCE_SHEET_NAME,
+      headers: ['Fraccion', 'UnidadMedidaTarifa', 'Importado', 'Retornado', 'Cambio_Regimen', 'Saldo_Pendiente', 'Pedimentos'],
+      columnTypes: ['fraccion', 'text', 'decimal', 'decimal', 'decimal', 'decimal', 'integer'],
+      rows: balanceRows
+    },
+    diagnostics
+  };
+};
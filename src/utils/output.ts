@@ -0,0 +1,291 @@
+import JSZip from 'jszip';
+import * as XLSX from 'xlsx';
+import Papa from 'papaparse';
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import type { ColumnSource } from 'hyparquet-writer';
+import type { TableData } from './consolidate';
+import { CellValue, formatCellValue } from './schema';
+import { addIndexSheet, buildWorkbookFromTables, EXCEL_MAX_DATA_ROWS, EXCEL_MIME_TYPE, splitTable, workbookToBytes } from './excel';
+import type { ExistingSheet } from './workbookUpdate';
+
+/**
+ * Output writers: every format receives the same tables (collectTables) and
+ * returns the bytes of one downloadable file
+ */
+
+export type OutputFormat = 'xlsx' | 'xlsx-zip' | 'csv' | 'ndjson' | 'parquet' | 'sqlite';
+
+export interface OutputOptions {
+  // Field delimiter of the CSV files (default: ",")
+  csvDelimiter?: string;
+  // Where the browser loads the SQLite engine (sql-wasm.wasm) from; Node finds it on its own
+  sqlWasmUrl?: string;
+  // Put an "Índice" sheet linking to every sheet first (Excel formats)
+  indexSheet?: boolean;
+  // Sheets added by the user to an updated workbook, appended after the tables
+  extraSheets?: ExistingSheet[];
+}
+
+export interface OutputWriter {
+  label: string;
+  // Extension of the generated file, without the dot
+  extension: string;
+  // Appended to the file name of ZIP bundles so they don't take the name of the input ZIP
+  fileSuffix?: string;
+  mimeType: string;
+  // Row limit per table of the format; longer tables are split into parts ("hojas", "libros")
+  split?: { maxRows: number; unit: string };
+  // Whether the user's sheets of an updated workbook are kept (Excel formats)
+  keepsExtraSheets?: boolean;
+  write: (tables: TableData[], options: OutputOptions) => Promise<Uint8Array>;
+}
+
+const ZIP_MIME_TYPE = 'application/zip';
+
+// Pedimento and partida keys get an index in SQLite
+const INDEXED_COLUMNS = ['No_Pedimento', 'No_Partida'];
+
+/**
+ * File name of a table inside a bundle ("501_Datos_generales.csv"), unique within the bundle
+ */
+function tableFileName(table: TableData, extension: string, used: Set<string>): string {
+  const base = table.name.trim().replace(/[\\/:*?"<>|]/g, '_').replace(/\s+/g, '_');
+  let name = `${base}.${extension}`;
+  for (let copy = 2; used.has(name.toLowerCase()); copy++) {
+    name = `${base}_${copy}.${extension}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * ASCII identifier for a SQL table ("seccion_501", "resumen_de_contribuciones")
+ */
+function sqlTableName(table: TableData, used: Set<string>): string {
+  const base = table.section
+    ? `seccion_${table.section}`
+    : table.name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  let name = base || 'tabla';
+  for (let copy = 2; used.has(name); copy++) {
+    name = `${base}_${copy}`;
+  }
+  used.add(name);
+  return name;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Same wall-clock time as a UTC instant, so timestamps don't shift with the time zone
+ */
+function wallClockUtc(date: Date): Date {
+  return new Date(Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds()
+  ));
+}
+
+/**
+ * Zip one file per table
+ */
+async function zipTables(tables: TableData[], extension: string, serialize: (table: TableData) => string | Uint8Array): Promise<Uint8Array> {
+  const zip = new JSZip();
+  const used = new Set<string>();
+  for (const table of tables) {
+    zip.file(tableFileName(table, extension, used), serialize(table));
+  }
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+function workbookBytes(tables: TableData[], options: OutputOptions): Promise<Uint8Array> {
+  const workbook = buildWorkbookFromTables(tables);
+  for (const { name, sheet } of options.extraSheets || []) {
+    // A name taken by a generated sheet gets a number appended
+    XLSX.utils.book_append_sheet(workbook, sheet, name, true);
+  }
+  if (options.indexSheet) {
+    addIndexSheet(workbook);
+  }
+  return workbookToBytes(workbook);
+}
+
+/**
+ * ZIP of workbooks: the first has every table and the next ones the rows of the tables
+ * that didn't fit, under the same sheet names
+ */
+async function tablesToWorkbooks(tables: TableData[], options: OutputOptions): Promise<Uint8Array> {
+  const parts = tables.map(table => splitTable(table));
+  const workbookCount = Math.max(1, ...parts.map(tableParts => tableParts.length));
+  const zip = new JSZip();
+  for (let index = 0; index < workbookCount; index++) {
+    const workbookTables = parts.filter(tableParts => tableParts.length > index).map(tableParts => tableParts[index]);
+    // The user's sheets stay in the first workbook; XLSX files are already compressed
+    const workbookOptions = index === 0 ? options : { ...options, extraSheets: undefined };
+    zip.file(`Libro_${index + 1}.xlsx`, await workbookBytes(workbookTables, workbookOptions), { compression: 'STORE' });
+  }
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+/**
+ * CSV text of a table, with a BOM so Excel detects UTF-8
+ */
+function tableToCsv(table: TableData, delimiter: string): string {
+  const rows = table.rows.map(row => row.map(formatCellValue));
+  return '\uFEFF' + Papa.unparse({ fields: table.headers, data: rows }, { delimiter, newline: '\r\n' });
+}
+
+/**
+ * One JSON object per line; dates as local ISO timestamps and empty cells as null
+ */
+function tableToNdjson(table: TableData): string {
+  const toJson = (value: CellValue) => {
+    if (value === '') return null;
+    return value instanceof Date ? formatCellValue(value).replace(' ', 'T') : value;
+  };
+  return table.rows
+    .map(row => JSON.stringify(Object.fromEntries(table.headers.map((header, index) => [header, toJson(row[index])]))))
+    .join('\n') + (table.rows.length > 0 ? '\n' : '');
+}
+
+/**
+ * Parquet column of a table: typed when every value matches the column type,
+ * text otherwise (values that failed validation are kept as written in the ASC file)
+ */
+function parquetColumn(table: TableData, index: number): ColumnSource {
+  const name = table.headers[index];
+  const values = table.rows.map(row => row[index]);
+  const present = values.filter(value => value !== '');
+  const type = table.columnTypes[index];
+
+  if (type === 'integer' && present.every(value => typeof value === 'number' && Number.isSafeInteger(value))) {
+    return { name, type: 'INT64', data: values.map(value => (value === '' ? null : BigInt(value as number))) };
+  }
+  if (type === 'decimal' && present.every(value => typeof value === 'number')) {
+    return { name, type: 'DOUBLE', data: values.map(value => (value === '' ? null : value)) };
+  }
+  if (type === 'datetime' && present.every(value => value instanceof Date)) {
+    return { name, type: 'TIMESTAMP', data: values.map(value => (value instanceof Date ? wallClockUtc(value) : null)) };
+  }
+  return { name, type: 'STRING', data: values.map(value => (value === '' ? null : formatCellValue(value))) };
+}
+
+/**
+ * SQLite database with one table per output table, the pedimento/partida keys
+ * indexed and a "_tablas" table describing them
+ */
+async function tablesToSqlite(tables: TableData[], options: OutputOptions): Promise<Uint8Array> {
+  // Loaded on demand: the engine is a WebAssembly module of about 1 MB
+  const { default: initSqlJs } = await import('sql.js');
+  const { sqlWasmUrl } = options;
+  const SQL = await initSqlJs(sqlWasmUrl ? { locateFile: () => sqlWasmUrl } : undefined);
+  const db = new SQL.Database();
+
+  try {
+    db.run('CREATE TABLE "_tablas" ("tabla" TEXT, "seccion" TEXT, "nombre" TEXT, "filas" INTEGER)');
+    const used = new Set<string>(['_tablas']);
+
+    for (const table of tables) {
+      const tableName = sqlTableName(table, used);
+      db.run('INSERT INTO "_tablas" VALUES (?, ?, ?, ?)', [tableName, table.section || null, table.name, table.rows.length]);
+      if (table.headers.length === 0) continue;
+
+      const columns = table.headers.map((header, index) => {
+        const type = table.columnTypes[index];
+        const sqlType = type === 'integer' ? 'INTEGER' : type === 'decimal' ? 'REAL' : 'TEXT';
+        return `${quoteIdentifier(header)} ${sqlType}`;
+      });
+      db.run(`CREATE TABLE ${quoteIdentifier(tableName)} (${columns.join(', ')})`);
+
+      const insert = db.prepare(
+        `INSERT INTO ${quoteIdentifier(tableName)} VALUES (${table.headers.map(() => '?').join(', ')})`
+      );
+      db.run('BEGIN');
+      for (const row of table.rows) {
+        insert.run(row.map(value => (value === '' ? null : typeof value === 'number' ? value : formatCellValue(value))));
+      }
+      db.run('COMMIT');
+      insert.free();
+
+      for (const column of INDEXED_COLUMNS.filter(name => table.headers.includes(name))) {
+        const indexName = `idx_${tableName}_${column.toLowerCase()}`;
+        db.run(`CREATE INDEX ${quoteIdentifier(indexName)} ON ${quoteIdentifier(tableName)} (${quoteIdentifier(column)})`);
+      }
+    }
+
+    return db.export();
+  } finally {
+    db.close();
+  }
+}
+
+export const OUTPUT_WRITERS: Record<OutputFormat, OutputWriter> = {
+  xlsx: {
+    label: 'Excel (.xlsx)',
+    extension: 'xlsx',
+    mimeType: EXCEL_MIME_TYPE,
+    split: { maxRows: EXCEL_MAX_DATA_ROWS, unit: 'hojas' },
+    keepsExtraSheets: true,
+    write: workbookBytes
+  },
+  'xlsx-zip': {
+    label: 'Excel en varios libros si excede el límite de filas (.zip)',
+    extension: 'zip',
+    fileSuffix: '_libros',
+    mimeType: ZIP_MIME_TYPE,
+    split: { maxRows: EXCEL_MAX_DATA_ROWS, unit: 'libros' },
+    keepsExtraSheets: true,
+    write: tablesToWorkbooks
+  },
+  csv: {
+    label: 'CSV por sección (.zip)',
+    extension: 'zip',
+    fileSuffix: '_csv',
+    mimeType: ZIP_MIME_TYPE,
+    write: (tables, options) => zipTables(tables, 'csv', table => tableToCsv(table, options.csvDelimiter || ','))
+  },
+  ndjson: {
+    label: 'JSON por líneas por sección (.zip)',
+    extension: 'zip',
+    fileSuffix: '_ndjson',
+    mimeType: ZIP_MIME_TYPE,
+    write: (tables) => zipTables(tables, 'ndjson', tableToNdjson)
+  },
+  parquet: {
+    label: 'Parquet por sección (.zip)',
+    extension: 'zip',
+    fileSuffix: '_parquet',
+    mimeType: ZIP_MIME_TYPE,
+    // Parquet needs at least one column, so tables without data are left out
+    write: (tables) => zipTables(
+      tables.filter(table => table.headers.length > 0),
+      'parquet',
+      table => new Uint8Array(parquetWriteBuffer({ columnData: table.headers.map((_, index) => parquetColumn(table, index)) }))
+    )
+  },
+  sqlite: {
+    label: 'Base de datos SQLite (.sqlite)',
+    extension: 'sqlite',
+    mimeType: 'application/vnd.sqlite3',
+    write: tablesToSqlite
+  }
+};
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = 'xlsx';
+
+/**
+ * File name of the output in a format ("DataStage_combinado.xlsx", "enero_csv.zip")
+ */
+export const outputFileName = (baseName: string, format: OutputFormat): string => {
+  const writer = OUTPUT_WRITERS[format];
+  return `${baseName}${writer.fileSuffix || ''}.${writer.extension}`;
+};
+
+// CSV field delimiters offered in the UI (";" is what Excel expects with Spanish regional settings)
+export const CSV_DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Coma (,)',
+  ';': 'Punto y coma (;)',
+  '\t': 'Tabulador',
+  '|': 'Barra vertical (|)'
+};
@@ -1,267 +1,555 @@
 import Papa from 'papaparse';
+import { CellValue, COLUMN_TYPE_LABELS, coerceValue, getSectionSchema, validateHeaders } from './schema';
+import type { Diagnostic } from './diagnostics';
+import { buildPartidaKey, buildPedimentoKey, KeyComponent, resolveKeyFormat } from './pedimentoKey';
+import { buildRectificationLinks } from './rectifications';
+import { isKnownSection, SectionCatalog, sectionLevel } from './sectionCatalog';
+import { EncodingReport, encodingDiagnostics } from './encoding';
 
-interface AscRow {
-  [key: string]: string;
+// Row as read from the ASC file (all text)
+type RawAscRow = Record<string, string>;
+
+// Row after coercion to the column types of its section schema
+export interface AscRow {
+  [key: string]: CellValue;
+}
+
+export interface ParseOptions {
+  // Named format from KEY_FORMATS or a custom template for the No_Pedimento column
+  keyFormat?: string;
+  // Called as files are parsed (for progress reporting)
+  onFileParsed?: (processed: number, total: number) => void;
+  // Known section codes; others are parsed too but reported as uncommon (default: bundled catalog)
+  sectionCatalog?: SectionCatalog;
 }
 
 export interface ParsedData {
   sectionMap: Map<string, AscRow[]>;
+  diagnostics: Diagnostic[];
   error?: string;
 }
 
 /**
- * Parse ASC files from multiple folders and group rows by section code
- * All files from all folders with the same section code will be concatenated
+ * Receives the decoded text of one file in chunks of any size
  */
-export const parseAscFilesFromFolders = (
-  folderContents: Map<string, Map<string, string>>
-): ParsedData => {
-  // Create a combined map of all files from all folders
-  const allFileContents = new Map<string, string>();
-  
-  // Process each folder's files
-  for (const [folderName, fileContents] of folderContents.entries()) {
-    for (const [filename, content] of fileContents.entries()) {
-      // Use folder name as prefix to avoid filename conflicts
-      const prefixedFilename = `${folderName}/${filename}`;
-      allFileContents.set(prefixedFilename, content);
-    }
-  }
-  
-  // Use the existing parser function to process all files
-  return parseAscFiles(allFileContents);
+export interface AscFileSink {
+  write: (chunk: string) => void;
+  // Flushes the last line and reports the file-level diagnostics, including the
+  // encoding the file was decoded with when the caller knows it
+  end: (encoding?: EncodingReport) => void;
+  // The file couldn't be read to the end: its rows are dropped and an error is reported
+  abort: (reason: string) => void;
+}
+
+/**
+ * Incremental parser: files are opened one after the other and fed chunk by chunk,
+ * so only the current partial line and a small batch of lines are kept as raw text
+ */
+export interface AscParser {
+  // The source (archive or folder) is written to the Origen column of every row of the file
+  openFile: (filename: string, source?: string) => AscFileSink;
+  // Number of files opened so far
+  fileCount: () => number;
+  // Sections and diagnostics of all the files parsed so far
+  finish: () => ParsedData;
+}
+
+// Column telling which archive or folder a row came from (added when a source is given)
+export const SOURCE_COLUMN = 'Origen';
+
+// Per file and column, report this many invalid values individually before summarizing
+const MAX_VALUE_DIAGNOSTICS = 50;
+
+// Complete lines handed to Papa.parse at once
+const BATCH_LINES = 2000;
+
+const KEY_COMPONENT_LABELS: Record<KeyComponent, string> = {
+  anio: 'año (FechaPagoReal)',
+  aduana: 'aduana (SeccionAduanera)',
+  seccion: 'sección aduanera',
+  patente: 'patente',
+  consecutivo: 'consecutivo (Pedimento)',
+  secuencia: 'SecuenciaFraccion'
 };
 
+// Possible section code column names to check
+const POSSIBLE_SECTION_COLUMNS = [
+  'section', 'sectioncode', 'section_code', 'code',
+  'seccion', 'seccionaduanera', 'seccion_aduanera'
+];
+
+interface CappedReporter {
+  report: (kind: string, diagnostic: Diagnostic) => void;
+  // Number of diagnostics of a kind that were counted but not reported
+  overflow: (kind: string) => number;
+}
+
 /**
- * Create a combined identifier from multiple fields
+ * Report the first MAX_VALUE_DIAGNOSTICS diagnostics of each kind and only count the rest,
+ * so a file with millions of bad rows doesn't produce millions of diagnostics
  */
-function createCombinedIdentifier(row: AscRow): string {
-  try {
-    // Extract year from FechaPagoReal field which has format "2025-03-05 11:58:12"
-    let year = '';
-    const fechaPagoReal = row['FechaPagoReal'] || row['fechaPagoReal'] || row['FECHA_PAGO_REAL'];
-    
-    if (fechaPagoReal) {
-      // The date format is "YYYY-MM-DD HH:MM:SS"
-      // Extract the first 4 characters which will be the year
-      if (fechaPagoReal.length >= 4) {
-        // Get just the last two digits of the year
-        year = fechaPagoReal.substring(2, 4);
-      }
+function createCappedReporter(diagnostics: Diagnostic[]): CappedReporter {
+  const counts = new Map<string, number>();
+  return {
+    report: (kind, diagnostic) => {
+      const count = (counts.get(kind) || 0) + 1;
+      counts.set(kind, count);
+      if (count <= MAX_VALUE_DIAGNOSTICS) diagnostics.push(diagnostic);
+    },
+    overflow: (kind) => Math.max(0, (counts.get(kind) || 0) - MAX_VALUE_DIAGNOSTICS)
+  };
+}
+
+interface RowTyper {
+  type: (row: RawAscRow, line: number) => AscRow;
+  // Summarize the diagnostics beyond the per-column limits
+  finish: () => void;
+}
+
+/**
+ * Type the rows of one section within one file: add the No_Pedimento (and No_Partida
+ * for partida tables) key columns and coerce values to the section's column types.
+ * Header mismatches are reported when the typer is created; incomplete keys and
+ * values that don't fit their column type are reported per row (invalid values are kept as text)
+ */
+function createRowTyper(
+  headers: string[],
+  sectionCode: string,
+  filename: string,
+  source: string | undefined,
+  diagnostics: Diagnostic[],
+  options: ParseOptions
+): RowTyper {
+  const schema = getSectionSchema(sectionCode);
+  // The catalog can declare the level of sections missing from the layout (or change it)
+  const isPartida = sectionLevel(sectionCode, options.sectionCatalog) === 'partida';
+  const keyColumn = isPartida ? 'No_Partida' : 'No_Pedimento';
+  const reporter = createCappedReporter(diagnostics);
+
+  if (schema) {
+    const { missingColumns, unexpectedColumns } = validateHeaders(schema, headers);
+    for (const column of missingColumns) {
+      diagnostics.push({
+        severity: 'warning', file: filename, section: sectionCode, line: 1, column,
+        message: `Falta la columna ${column} esperada para la sección ${sectionCode}`
+      });
     }
-    
-    // If no year found, use empty string
-    if (!year) {
-      console.warn('Could not extract year from FechaPagoReal field');
-      year = '';
+    for (const column of unexpectedColumns) {
+      diagnostics.push({
+        severity: 'info', file: filename, section: sectionCode, line: 1, column,
+        message: `Columna ${column} no definida en el esquema de la sección ${sectionCode}; se conserva como texto`
+      });
     }
-    
-    // Get seccion aduanera (might be under different field names)
-    let seccion = '';
-    const seccionFields = ['seccionAduanera', 'seccion', 'aduana', 'SECCION', 'ADUANA', 'SECCION_ADUANERA', 'ClaveDoc', 'SeccionAd'];
-    for (const field of seccionFields) {
-      if (row[field]) {
-        seccion = row[field].trim();
-        break;
-      }
+  }
+
+  const columnTypes = new Map(schema?.columns.map(column => [column.name, column.type]));
+
+  const type = (row: RawAscRow, line: number): AscRow => {
+    const pedimento = buildPedimentoKey(row, options.keyFormat);
+    const typedRow: AscRow = { "No_Pedimento": pedimento.key };
+    const missing = [...pedimento.missing];
+
+    if (isPartida) {
+      const partida = buildPartidaKey(row, pedimento.key);
+      typedRow["No_Partida"] = partida.key;
+      missing.push(...partida.missing);
     }
-    
-    // Get patente (might be under different field names)
-    let patente = '';
-    const patenteFields = ['patente', 'PATENTE', 'Patente'];
-    for (const field of patenteFields) {
-      if (row[field]) {
-        patente = row[field].trim();
-        break;
+    if (source !== undefined) {
+      typedRow[SOURCE_COLUMN] = source;
+    }
+    // Rectifications point to the pedimento they replace and to the original one
+    if (sectionCode === '701') {
+      Object.assign(typedRow, buildRectificationLinks(row, options.keyFormat));
+    }
+
+    if (missing.length > 0) {
+      reporter.report('key', {
+        severity: 'warning', file: filename, section: sectionCode, line, column: keyColumn,
+        message: `Clave incompleta, falta: ${missing.map(part => KEY_COMPONENT_LABELS[part]).join(', ')}`
+      });
+    }
+
+    for (const [column, value] of Object.entries(row)) {
+      // Unknown sections and columns are passed through as text
+      const columnType = columnTypes.get(column);
+      const typedValue = columnType ? coerceValue(value, columnType) : value;
+      if (typedValue !== null) {
+        typedRow[column] = typedValue;
+        continue;
+      }
+
+      // Keep the raw text and report the value
+      typedRow[column] = value;
+      if (columnType) {
+        reporter.report(`value:${column}`, {
+          severity: 'warning', file: filename, section: sectionCode, line, column,
+          message: `El valor "${value}" no es un ${COLUMN_TYPE_LABELS[columnType]} válido; se conserva como texto`
+        });
       }
     }
-    
-    // Get pedimento (might be under different field names)
-    let pedimento = '';
-    const pedimentoFields = ['pedimento', 'PEDIMENTO', 'Pedimento', 'numeroPedimento', 'pedimentoNumero', 'Pediment'];
-    for (const field of pedimentoFields) {
-      if (row[field]) {
-        pedimento = row[field].trim();
-        break;
+    return typedRow;
+  };
+
+  const finish = () => {
+    const incompleteKeys = reporter.overflow('key');
+    if (incompleteKeys > 0) {
+      diagnostics.push({
+        severity: 'warning', file: filename, section: sectionCode,
+        message: `${incompleteKeys} filas adicionales con clave de pedimento incompleta`
+      });
+    }
+    for (const column of headers) {
+      const invalidValues = reporter.overflow(`value:${column}`);
+      if (invalidValues > 0) {
+        diagnostics.push({
+          severity: 'warning', file: filename, section: sectionCode, column,
+          message: `${invalidValues} valores inválidos adicionales en la columna ${column}`
+        });
       }
     }
-    
-    // Create array of non-empty values
-    const parts = [];
-    if (year) parts.push(year);
-    if (seccion) parts.push(seccion);
-    if (patente) parts.push(patente);
-    if (pedimento) parts.push(pedimento);
-    
-    // Join with single dashes
-    return parts.join('-');
-  } catch (error) {
-    console.warn('Error creating combined identifier:', error);
-    return 'ID-Unknown';
-  }
+  };
+
+  return { type, finish };
+}
+
+/**
+ * Split one ASC line into trimmed fields
+ */
+function splitHeaderLine(line: string): string[] {
+  const result = Papa.parse<string[]>(line, { delimiter: '|' });
+  return (result.data[0] || []).map(header => header?.trim() || '');
 }
 
 /**
- * Parse ASC file contents and group rows by section code
+ * Create an incremental ASC parser that groups rows by section code
+ * All files with the same section code are concatenated
  */
-export const parseAscFiles = (fileContents: Map<string, string>): ParsedData => {
+export const createAscParser = (options: ParseOptions = {}): AscParser => {
+  // An invalid key format is rejected before any file is read
+  options = { ...options, keyFormat: resolveKeyFormat(options.keyFormat) };
   // Map to store rows by section code
   const sectionMap = new Map<string, AscRow[]>();
-  
-  // Valid section codes from the requirements, in the specified order
-  const validSectionCodes = [
-    // Tablas con información a nivel de pedimento
-    '501', '502', '503', '504', '505', '506', '507', '508', '509', '510', 
-    '511', '512', '520', '701', '702',
-    // Tablas con información a nivel de partida (Secuencia de la fracción arancelaria)
-    '551', '552', '553', '554', '555', '556', '557', '558',
-
-  ];
-  
-  // Possible section code column names to check
-  const possibleSectionColumns = [
-    'section', 'sectioncode', 'section_code', 'code',
-    'seccion', 'seccionaduanera', 'seccion_aduanera'
-  ];
-  
-  try {
-    // Process each file
-    for (const [filename, content] of fileContents.entries()) {
-      // Skip empty files
-      if (!content || !content.trim()) {
-        console.warn(`File ${filename} is empty.`);
-        continue;
-      }
-      
-      // Extract section code from filename if possible (pattern: *_XXX.asc)
-      let filenameSection = null;
-      const sectionMatch = filename.match(/_(\d{3})\.(asc|ASC)$/);
-      if (sectionMatch && sectionMatch[1]) {
-        filenameSection = sectionMatch[1];
-        console.log(`Extracted section code ${filenameSection} from filename ${filename}`);
+  const diagnostics: Diagnostic[] = [];
+  let openedFiles = 0;
+
+  const getSectionRows = (sectionCode: string): AscRow[] => {
+    let rows = sectionMap.get(sectionCode);
+    if (!rows) {
+      rows = [];
+      sectionMap.set(sectionCode, rows);
+    }
+    return rows;
+  };
+
+  const openFile = (filename: string, source?: string): AscFileSink => {
+    openedFiles++;
+
+    // Extract section code from filename if possible (pattern: *_XXX.asc)
+    const sectionMatch = filename.match(/_(\d{3})\.(asc|ASC)$/);
+    const filenameSection = sectionMatch ? sectionMatch[1] : null;
+
+    const reporter = createCappedReporter(diagnostics);
+    const typers = new Map<string, RowTyper>();
+    let headers: string[] | null = null;
+    let sectionColumn: string | undefined;
+    // Text after the last line break seen so far
+    let pending = '';
+    let lineNumber = 0;
+    let dataRows = 0;
+    let failed = false;
+    let batch: string[] = [];
+    let batchLines: number[] = [];
+    // Rows of this file appended to each section, removed again if the file is aborted
+    const appendedRows = new Map<string, number>();
+    const createdSections = new Set<string>();
+
+    const getTyper = (sectionCode: string, line: number): RowTyper => {
+      let typer = typers.get(sectionCode);
+      if (!typer) {
+        // Use section code even if not in valid list (report it once per file but include data)
+        if (!filenameSection && !isKnownSection(sectionCode, options.sectionCatalog)) {
+          diagnostics.push({
+            severity: 'warning', file: filename, section: sectionCode, line, column: sectionColumn,
+            message: `Código de sección poco común "${sectionCode}"; se incluye de todos modos`
+          });
+        }
+        typer = createRowTyper(headers || [], sectionCode, filename, source, diagnostics, options);
+        typers.set(sectionCode, typer);
       }
-      
-      // Clean up content - remove trailing pipes at end of lines
-      const cleanContent = content
-        .split('\n')
-        .map(line => line.endsWith('|') ? line.slice(0, -1) : line)
-        .join('\n');
-      
-      try {
-        // Parse CSV with pipe delimiter
-        const parseResult = Papa.parse(cleanContent, {
-          delimiter: '|',
-          header: true,
-          skipEmptyLines: true,
-          transformHeader: (header: string) => header?.trim() || '',
-          transform: (value: string) => value?.trim() || ''
+      return typer;
+    };
+
+    // Parse the buffered lines and append their rows to the section map
+    const flushBatch = () => {
+      if (batch.length === 0 || !headers) return;
+      const fileHeaders = headers;
+
+      const parseResult = Papa.parse<string[]>(batch.join('\n'), {
+        delimiter: '|',
+        newline: '\n',
+        transform: (value: string) => value?.trim() || ''
+      });
+
+      // Report parse errors (Papa's row index is relative to the batch)
+      for (const parseErr of parseResult.errors || []) {
+        reporter.report('malformed', {
+          severity: 'warning', file: filename,
+          line: parseErr.row !== undefined ? batchLines[parseErr.row] : undefined,
+          message: `Fila mal formada: ${parseErr.message}`
         });
-        
-        // Check for parse errors
-        if (parseResult.errors && parseResult.errors.length > 0) {
-          console.warn(`Parse errors in file ${filename}:`, parseResult.errors);
+      }
+
+      parseResult.data.forEach((fields, index) => {
+        const line = batchLines[index];
+        if (fields.length !== fileHeaders.length) {
+          reporter.report('malformed', {
+            severity: 'warning', file: filename, line,
+            message: `Fila mal formada: se esperaban ${fileHeaders.length} campos y se encontraron ${fields.length}`
+          });
         }
-        
-        // Get the parsed data
-        const rows = parseResult.data as AscRow[] || [];
-        
-        if (!rows || rows.length === 0) {
-          // If we have a section code from filename but no rows, create an empty array for that section
-          if (filenameSection && validSectionCodes.includes(filenameSection)) {
-            if (!sectionMap.has(filenameSection)) {
-              sectionMap.set(filenameSection, []);
-            }
-            console.log(`Created empty section ${filenameSection} from file ${filename}`);
-          } else {
-            console.warn(`File ${filename} contains no valid data rows.`);
-          }
-          continue;
+
+        const row: RawAscRow = {};
+        fileHeaders.forEach((header, column) => {
+          row[header] = fields[column] ?? '';
+        });
+
+        const sectionCode = filenameSection || (sectionColumn ? row[sectionColumn] : '');
+        // Skip if section code is missing
+        if (!sectionCode) {
+          reporter.report('section', {
+            severity: 'warning', file: filename, line, column: sectionColumn,
+            message: 'Falta el código de sección; se omitió la fila'
+          });
+          return;
         }
-        
+
+        if (!sectionMap.has(sectionCode)) createdSections.add(sectionCode);
+        getSectionRows(sectionCode).push(getTyper(sectionCode, line).type(row, line));
+        appendedRows.set(sectionCode, (appendedRows.get(sectionCode) || 0) + 1);
+      });
+
+      batch = [];
+      batchLines = [];
+    };
+
+    const handleLine = (rawLine: string) => {
+      lineNumber++;
+
+      // Strip the carriage return and the trailing pipe that ends every Data Stage line
+      let line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+      if (line.endsWith('|')) line = line.slice(0, -1);
+      if (!line.trim()) return;
+
+      if (!headers) {
+        headers = splitHeaderLine(line);
         // Find the section code column if we don't have one from filename
         if (!filenameSection) {
-          if (!rows[0]) {
-            console.warn(`No data rows in file ${filename}`);
-            continue;
-          }
-          
-          const headers = Object.keys(rows[0]);
-          
-          // Try to find section column by matching known names (case insensitive)
-          const sectionCodeHeader = headers.find(
-            header => header && possibleSectionColumns.includes(header.toLowerCase())
+          sectionColumn = headers.find(
+            header => header && POSSIBLE_SECTION_COLUMNS.includes(header.toLowerCase())
           );
-          
-          if (sectionCodeHeader) {
-            // Process rows using column data
-            for (const row of rows) {
-              if (!row) continue;
-              
-              const sectionCode = row[sectionCodeHeader];
-              
-              // Skip if section code is missing
-              if (!sectionCode) {
-                console.warn(`Missing section code in file ${filename}. Skipping row.`);
-                continue;
-              }
-              
-              // Use section code even if not in valid list (log warning but include data)
-              if (!validSectionCodes.includes(sectionCode)) {
-                console.warn(`Uncommon section code "${sectionCode}" in file ${filename}. Including anyway.`);
-              }
-              
-              // Create combined identifier and add it as first field in row
-              const combinedId = createCombinedIdentifier(row);
-              const enhancedRow: AscRow = { 
-                "No_Pedimento": combinedId,
-                ...row
-              };
-
-              // Add row to section map
-              if (!sectionMap.has(sectionCode)) {
-                sectionMap.set(sectionCode, []);
-              }
-              sectionMap.get(sectionCode)?.push(enhancedRow);
-            }
-          } else {
-            console.warn(`File ${filename} doesn't have a recognized section code column. Using filename section if available.`);
-          }
-        } else {
-          // Use the section code from the filename for all rows in this file
-          if (!sectionMap.has(filenameSection)) {
-            sectionMap.set(filenameSection, []);
-          }
-          
-          // Add combined identifier to each row and add it to the section
-          const enhancedRows = rows.map(row => {
-            const combinedId = createCombinedIdentifier(row);
-            return {
-              "No_Pedimento": combinedId,
-              ...row
-            };
-          });
-          
-          // Add all rows to this section
-          sectionMap.get(filenameSection)?.push(...enhancedRows);
         }
+        return;
+      }
+
+      dataRows++;
+      // Without a section there is nowhere to put the row; it's reported once when the file ends
+      if (!filenameSection && !sectionColumn) return;
+
+      batch.push(line);
+      batchLines.push(lineNumber);
+      if (batch.length >= BATCH_LINES) flushBatch();
+    };
+
+    // Report unexpected exceptions once and ignore the rest of the file
+    const guard = (step: () => void) => {
+      if (failed) return;
+      try {
+        step();
       } catch (parseError) {
+        failed = true;
         console.error(`Error parsing file ${filename}:`, parseError);
+        diagnostics.push({
+          severity: 'error', file: filename,
+          message: 'Error al analizar el archivo: ' + (parseError instanceof Error ? parseError.message : String(parseError))
+        });
       }
-    }
-    
+    };
+
+    const write = (chunk: string) => guard(() => {
+      const text = pending + chunk;
+      let start = 0;
+      let newline = text.indexOf('\n', start);
+      while (newline !== -1) {
+        handleLine(text.slice(start, newline));
+        start = newline + 1;
+        newline = text.indexOf('\n', start);
+      }
+      pending = text.slice(start);
+    });
+
+    const finishFile = () => guard(() => {
+      if (pending) handleLine(pending);
+      pending = '';
+      flushBatch();
+
+      // Skip empty files
+      if (!headers) {
+        diagnostics.push({ severity: 'warning', file: filename, message: 'El archivo está vacío; se omitió' });
+        return;
+      }
+
+      if (dataRows === 0) {
+        // If we have a section code from filename but no rows, create an empty array for that section
+        if (filenameSection && isKnownSection(filenameSection, options.sectionCatalog)) {
+          getSectionRows(filenameSection);
+          diagnostics.push({
+            severity: 'info', file: filename, section: filenameSection,
+            message: `El archivo no contiene filas de datos; la sección ${filenameSection} se crea vacía`
+          });
+        } else {
+          diagnostics.push({ severity: 'warning', file: filename, message: 'El archivo no contiene filas de datos válidas' });
+        }
+        return;
+      }
+
+      if (!filenameSection && !sectionColumn) {
+        diagnostics.push({
+          severity: 'error', file: filename,
+          message: `El archivo no tiene una columna de sección reconocida ni un código en el nombre; se omitieron ${dataRows} filas`
+        });
+        return;
+      }
+
+      for (const typer of typers.values()) {
+        typer.finish();
+      }
+      const malformedRows = reporter.overflow('malformed');
+      if (malformedRows > 0) {
+        diagnostics.push({ severity: 'warning', file: filename, message: `${malformedRows} filas mal formadas adicionales` });
+      }
+      const rowsWithoutSection = reporter.overflow('section');
+      if (rowsWithoutSection > 0) {
+        diagnostics.push({
+          severity: 'warning', file: filename, column: sectionColumn,
+          message: `${rowsWithoutSection} filas adicionales sin código de sección`
+        });
+      }
+    });
+
+    const end = (encoding?: EncodingReport) => {
+      // Reported even when the file failed to parse: a wrong encoding may be the cause
+      if (encoding) diagnostics.push(...encodingDiagnostics(encoding, filename));
+      finishFile();
+    };
+
+    const abort = (reason: string) => {
+      // Files are parsed one after the other, so this file's rows are the last ones of each section
+      let dropped = 0;
+      for (const [sectionCode, count] of appendedRows) {
+        const rows = getSectionRows(sectionCode);
+        rows.splice(rows.length - count, count);
+        if (createdSections.has(sectionCode)) sectionMap.delete(sectionCode);
+        dropped += count;
+      }
+      appendedRows.clear();
+      failed = true;
+      batch = [];
+      batchLines = [];
+      diagnostics.push({
+        severity: 'error', file: filename,
+        message: `No se pudo leer el archivo completo (${reason}); se descartaron sus ${dropped} filas ya analizadas`
+      });
+    };
+
+    return { write, end, abort };
+  };
+
+  const finish = (): ParsedData => {
     if (sectionMap.size === 0) {
       return {
         sectionMap,
+        diagnostics,
         error: 'No valid data found in any of the files.'
       };
     }
+    return { sectionMap, diagnostics };
+  };
+
+  return { openFile, fileCount: () => openedFiles, finish };
+};
+
+/**
+ * Group extracted files by their folder (the full path of nested archives, e.g. "2024/01")
+ * Paths without a folder prefix end up in the "main" folder
+ */
+export const groupFilesByFolder = (
+  fileContents: Map<string, string>
+): Map<string, Map<string, string>> => {
+  const folderMap = new Map<string, Map<string, string>>();
+  
+  for (const [path, content] of fileContents.entries()) {
+    // Split path into folder and filename
+    const separator = path.lastIndexOf('/');
+    const folderName = separator > 0 ? path.slice(0, separator) : 'main';
+    const fileName = separator > 0 ? path.slice(separator + 1) : path;
     
-    return { sectionMap };
-  } catch (error) {
-    console.error('Error in parseAscFiles:', error);
-    return {
-      sectionMap,
-      error: 'Error parsing ASC files: ' + (error instanceof Error ? error.message : String(error))
-    };
+    // Initialize folder map if it doesn't exist
+    if (!folderMap.has(folderName)) {
+      folderMap.set(folderName, new Map<string, string>());
+    }
+    
+    // Add file to folder map
+    folderMap.get(folderName)?.set(fileName, content);
   }
-}; 
\ No newline at end of file
+  
+  return folderMap;
+};
+
+/**
+ * Parse ASC files from multiple folders (archives) and group rows by section code
+ * All files from all folders with the same section code will be concatenated;
+ * the folder name is written to the Origen column of each row
+ */
+export const parseAscFilesFromFolders = (
+  folderContents: Map<string, Map<string, string>>,
+  options: ParseOptions = {}
+): ParsedData => {
+  const parser = createAscParser(options);
+  const totalFiles = Array.from(folderContents.values()).reduce((total, files) => total + files.size, 0);
+  
+  // Process each folder's files
+  let processedFiles = 0;
+  for (const [folderName, fileContents] of folderContents.entries()) {
+    for (const [filename, content] of fileContents.entries()) {
+      options.onFileParsed?.(processedFiles++, totalFiles);
+      // Use folder name as prefix to avoid filename conflicts
+      const sink = parser.openFile(`${folderName}/${filename}`, folderName);
+      sink.write(content);
+      sink.end();
+    }
+  }
+  options.onFileParsed?.(processedFiles, totalFiles);
+  
+  return parser.finish();
+};
+
+/**
+ * Parse ASC file contents that are already in memory and group rows by section code
+ */
+export const parseAscFiles = (
+  fileContents: Map<string, string>,
+  options: ParseOptions = {}
+): ParsedData => {
+  const parser = createAscParser(options);
+
+  let processedFiles = 0;
+  for (const [filename, content] of fileContents.entries()) {
+    options.onFileParsed?.(processedFiles++, fileContents.size);
+    const sink = parser.openFile(filename);
+    sink.write(content);
+    sink.end();
+  }
+  options.onFileParsed?.(processedFiles, fileContents.size);
+
+  return parser.finish();
+};
@@ -0,0 +1,135 @@
+/**
+ * Pedimento number builder
+ * The standard pedimento number is AA ADU PPPP NNNNNNN: last two digits of the
+ * payment year, aduana (first two digits of the sección aduanera), patente and
+ * the 7-digit consecutivo.
+ */
+
+export type KeyComponent = 'anio' | 'aduana' | 'seccion' | 'patente' | 'consecutivo' | 'secuencia';
+
+export const KEY_COMPONENTS: KeyComponent[] = ['anio', 'aduana', 'seccion', 'patente', 'consecutivo', 'secuencia'];
+
+// Named key formats; any template using the {component} placeholders is also accepted
+export const KEY_FORMATS: Record<string, string> = {
+  estandar: '{anio}-{aduana}-{patente}-{consecutivo}',
+  seccion: '{anio}-{seccion}-{patente}-{consecutivo}',
+  compacto: '{anio}{aduana}{patente}{consecutivo}',
+  espacios: '{anio}  {aduana}  {patente}  {consecutivo}'
+};
+
+export const DEFAULT_KEY_FORMAT = 'estandar';
+
+// Placeholder for a missing component, so incomplete keys never collide with complete ones
+export const MISSING_COMPONENT = '?';
+
+export interface KeyResult {
+  key: string;
+  missing: KeyComponent[];
+}
+
+// Source columns for each component (first non-empty wins, names compared case-insensitively)
+const FIELD_NAMES = {
+  fecha: ['FechaPagoReal', 'FechaValidacionPagoR', 'FechaPago'],
+  seccion: ['SeccionAduanera'],
+  patente: ['Patente'],
+  pedimento: ['Pedimento'],
+  secuencia: ['SecuenciaFraccion']
+};
+
+/**
+ * Read the first non-empty value among the given column names
+ */
+function getField(row: Record<string, string>, names: string[]): string {
+  for (const name of names) {
+    // Exact header match first: this runs for every row, scanning all columns is the slow path
+    if (name in row) {
+      const value = row[name]?.trim();
+      if (value) return value;
+      continue;
+    }
+    const wanted = name.toLowerCase();
+    for (const [column, value] of Object.entries(row)) {
+      if (column.toLowerCase() === wanted && value && value.trim()) {
+        return value.trim();
+      }
+    }
+  }
+  return '';
+}
+
+/**
+ * Whether a format is a named format or a template whose placeholders are all key components
+ * (a template without any would give every row the same key)
+ */
+export const isValidKeyFormat = (format: string): boolean => {
+  if (Object.hasOwn(KEY_FORMATS, format)) return true;
+  const placeholders = Array.from(format.matchAll(/\{(\w+)\}/g), match => match[1]);
+  return placeholders.length > 0 && placeholders.every(name => (KEY_COMPONENTS as string[]).includes(name));
+};
+
+/**
+ * Resolve a named format or pass a custom template through
+ * Throws when the format is neither a named format nor a valid template
+ */
+export const resolveKeyFormat = (format: string = DEFAULT_KEY_FORMAT): string => {
+  if (Object.hasOwn(KEY_FORMATS, format)) return KEY_FORMATS[format];
+  if (!isValidKeyFormat(format)) {
+    throw new Error(
+      `Formato de No_Pedimento no válido: "${format}". Usa ${Object.keys(KEY_FORMATS).join(', ')} ` +
+      `o una plantilla con los campos ${KEY_COMPONENTS.map(name => `{${name}}`).join(', ')}`
+    );
+  }
+  return format;
+};
+
+/**
+ * Extract the key components of a raw (text) row
+ * Components that can't be determined are left empty
+ */
+export const getKeyComponents = (row: Record<string, string>): Record<KeyComponent, string> => {
+  const fecha = getField(row, FIELD_NAMES.fecha);
+  const yearMatch = fecha.match(/^(\d{4})-/);
+  const seccion = getField(row, FIELD_NAMES.seccion);
+
+  return {
+    anio: yearMatch ? yearMatch[1].slice(2) : '',
+    // The aduana is the first two digits of the 3-digit sección aduanera
+    aduana: /^\d{3}$/.test(seccion) ? seccion.slice(0, 2) : '',
+    seccion,
+    patente: getField(row, FIELD_NAMES.patente),
+    consecutivo: getField(row, FIELD_NAMES.pedimento),
+    secuencia: getField(row, FIELD_NAMES.secuencia)
+  };
+};
+
+/**
+ * Build the pedimento number of a row in the given format
+ * Missing components are replaced by "?" and listed in the result
+ */
+export const buildPedimentoKey = (row: Record<string, string>, format?: string): KeyResult => {
+  const components = getKeyComponents(row);
+  const missing: KeyComponent[] = [];
+
+  const key = resolveKeyFormat(format).replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    if (!Object.hasOwn(components, name)) return placeholder;
+    const value = components[name as KeyComponent];
+    if (!value) {
+      missing.push(name as KeyComponent);
+      return MISSING_COMPONENT;
+    }
+    return value;
+  });
+
+  return { key, missing };
+};
+
+/**
+ * Build the partida key: pedimento number plus the SecuenciaFraccion
+ */
+export const buildPartidaKey = (row: Record<string, string>, pedimentoKey: string): KeyResult => {
+  const secuencia = getField(row, FIELD_NAMES.secuencia);
+  return {
+    key: `${pedimentoKey}-${secuencia || MISSING_COMPONENT}`,
+    missing: secuencia ? [] : ['secuencia']
+  };
+};
@@ -0,0 +1,554 @@
+import { DEFAULT_EXTRACTION_LIMITS, ExtractionLimits, formatBytes, streamAscFile, streamAscFromZip, ZipInput } from './zipHandler';
+import { archiveKindFromName } from './archive';
+import { AscRow, createAscParser } from './parser';
+import { countDiagnostics, Diagnostic } from './diagnostics';
+import type { ConsolidationOptions, TableData } from './consolidate';
+import { dedupSections, DedupPolicy } from './dedup';
+import { buildCurrentState } from './rectifications';
+import { buildContributionReconciliation, buildContributionSummary } from './contributions';
+import { buildImmexReport, IMMEX_DOCUMENTS } from './immex';
+import { diffSections, formatSectionChanges, SectionChanges } from './diff';
+import { QualityRuleSettings, runQualityRules } from './qualityRules';
+import { collectTables, findTableSplits, TableSplit } from './excel';
+import { DEFAULT_OUTPUT_FORMAT, OUTPUT_WRITERS, OutputFormat } from './output';
+import type { EncodingOption } from './encoding';
+import { DEFAULT_SECTION_CATALOG, SectionCatalog, SheetLanguage } from './sectionCatalog';
+import type { SectionSelection } from './selection';
+import { DEFAULT_UPDATE_POLICY, ExistingSheet, isWorkbookInput, mergeIntoWorkbook, readExistingWorkbook, UpdatePolicy } from './workbookUpdate';
+
+/**
+ * One input of a run: a Data Stage archive (ZIP, TAR, .tar.gz...), a loose .asc file,
+ * or a workbook of a previous run (.xlsx) that the other inputs are added to
+ */
+export interface PipelineInput {
+  // Archive name or relative path of the file (e.g. "2025/enero.zip", "carpeta/3420_501.asc");
+  // it identifies the rows of this input in the Origen column
+  name: string;
+  data: ZipInput;
+}
+
+export interface PipelineOptions {
+  // Format of the No_Pedimento column (name from KEY_FORMATS or a custom template)
+  keyFormat?: string;
+  // Character encoding of the ASC files (default: detected per file)
+  encoding?: EncodingOption;
+  // Nesting depth, total size and file count caps of the extraction (default: DEFAULT_EXTRACTION_LIMITS)
+  extractionLimits?: Partial<ExtractionLimits>;
+  // Append the "Validación" sheet with parse diagnostics
+  validationSheet?: boolean;
+  // Put an "Índice" sheet linking to every sheet first (Excel formats)
+  indexSheet?: boolean;
+  // Add the pedimento/partida consolidated sheets
+  consolidation?: ConsolidationOptions;
+  // Rows repeating the natural key of their section (overlapping deliveries); default: keep all
+  dedup?: DedupPolicy;
+  // Pedimentos of the new drop already in the workbook being updated (default: skip)
+  updatePolicy?: UpdatePolicy;
+  // Show only the latest effective version of each rectified pedimento (701) and add
+  // the rectification history sheet
+  currentState?: boolean;
+  // Add the contributions summary (510 per month, patente and aduana) and the
+  // 510 vs 557 reconciliation sheets
+  contributions?: boolean;
+  // Add the IMMEX control sheets (Anexo 24 style movements and the balance per fracción)
+  immex?: boolean;
+  // Run the data quality rules (with these severities) and add the "Reglas de calidad" sheet
+  qualityRules?: QualityRuleSettings;
+  // Compare two extractions (the inputs, previous one first) instead of converting them:
+  // the output has the added, removed and changed rows of each section
+  compare?: boolean;
+  // Section names, sheet order and included sections (default: the bundled catalog)
+  sectionCatalog?: SectionCatalog;
+  // Language of the section sheet names (default: Spanish)
+  sheetLanguage?: SheetLanguage;
+  // File format of the output (default: xlsx)
+  outputFormat?: OutputFormat;
+  // Field delimiter of the CSV output (default: ",")
+  csvDelimiter?: string;
+  // URL of sql-wasm.wasm for the SQLite output in the browser
+  sqlWasmUrl?: string;
+}
+
+export interface PipelineCallbacks {
+  onProgress?: (percent: number) => void;
+  // User facing status lines ("Extrayendo archivos ASC...")
+  onStatus?: (message: string) => void;
+  // Detailed log lines for the debug panel / verbose output
+  onDebug?: (message: string) => void;
+  // Parse diagnostics, reported as soon as parsing finishes (even if the pipeline fails afterwards)
+  onDiagnostics?: (diagnostics: Diagnostic[]) => void;
+  // Aborting stops the pipeline at the next step or file boundary
+  signal?: AbortSignal;
+}
+
+export interface SectionSummary {
+  code: string;
+  rows: number;
+  // Duplicate rows removed (or flagged, with the flag policy)
+  duplicates: number;
+  // Columns of the section sheet, in order (for the review step)
+  columns: string[];
+}
+
+/**
+ * Everything the workbook is built from, kept between parsing and generation
+ * so the user can review the sections first
+ */
+export interface ParsedInputs {
+  sectionMap: Map<string, AscRow[]>;
+  // Derived report sheets (rectification history, contributions...)
+  reports: TableData[];
+  // Sheets added by the user to the workbook being updated
+  extraSheets?: ExistingSheet[];
+  // Row counts per section of a comparison (compare option)
+  changes?: SectionChanges[];
+  diagnostics: Diagnostic[];
+  sections: SectionSummary[];
+  fileCount: number;
+}
+
+/**
+ * Generated file: its bytes and how to name and serve it
+ */
+export interface PipelineOutput {
+  data: Uint8Array;
+  format: OutputFormat;
+  extension: string;
+  mimeType: string;
+  // Sheets of the workbook, or tables of the other formats
+  tableCount: number;
+  // Tables split into several sheets (or workbooks) because of the format's row limit
+  splits: TableSplit[];
+}
+
+export interface PipelineResult extends Omit<ParsedInputs, 'reports' | 'extraSheets'> {
+  output: PipelineOutput;
+}
+
+// Share of the progress bar used by extraction and parsing (the rest is the output file)
+const PARSE_PROGRESS = 85;
+
+/**
+ * Base name of the generated workbook: the input's own name, a generic one when merging,
+ * the updated workbook's name with a suffix (so it's never overwritten), or both names
+ * when comparing (the web app and the CLI name their output the same way)
+ */
+export const outputBaseName = (inputNames: string[], compare = false): string => {
+  const baseName = (name: string) => (name.split('/').pop() || name).replace(/\.(zip|asc|xlsx)$/i, '');
+  if (compare && inputNames.length === 2) {
+    return `Comparacion_${baseName(inputNames[0])}_vs_${baseName(inputNames[1])}`;
+  }
+  const workbookName = inputNames.find(isWorkbookInput);
+  if (workbookName) return baseName(workbookName) + '_actualizado';
+  if (inputNames.length !== 1) return 'DataStage_combinado';
+  return baseName(inputNames[0]);
+};
+
+/**
+ * Suffix of a section summary line describing its duplicates ("" when there are none)
+ */
+export const formatDuplicates = (duplicates: number, policy: DedupPolicy): string => {
+  if (duplicates === 0) return '';
+  return policy === 'flag'
+    ? ` (${duplicates} duplicados marcados)`
+    : ` (${duplicates} duplicados eliminados)`;
+};
+
+/**
+ * Summary line of a table split by the row limit of the output format
+ */
+export const formatTableSplit = (split: TableSplit, format: OutputFormat): string => {
+  const unit = OUTPUT_WRITERS[format].split?.unit || 'partes';
+  return `"${split.name}" tiene ${split.rows} filas y se dividió en ${split.parts} ${unit}`;
+};
+
+/**
+ * Whether an input is an archive (ZIP, TAR or a gzip wrapper) rather than a loose .asc file
+ */
+export const isArchiveInput = (name: string): boolean => archiveKindFromName(name) !== undefined;
+
+/**
+ * Origen value and diagnostics path of an entry extracted from an archive
+ * ("main" and "text_files" are the extractor's names for the archive root)
+ */
+function describeEntry(archive: string, path: string): { source: string; filename: string } {
+  // Nested archives keep their full path as folder ("2024/01/3420_501.asc") and every entry
+  // its folders inside the archive ("main/detalle/3420_551.asc")
+  const relative = path.replace(/^(main|text_files)\//, '');
+  const separator = relative.lastIndexOf('/');
+  return {
+    source: separator === -1 ? archive : `${archive}/${relative.slice(0, separator)}`,
+    filename: `${archive}/${relative}`
+  };
+}
+
+/**
+ * Origen value of a loose file: the folder it was uploaded from, or its own name
+ */
+function describeLooseFile(name: string): string {
+  const separator = name.lastIndexOf('/');
+  return separator > 0 ? name.slice(0, separator) : name;
+}
+
+/**
+ * Diagnostic message of an extraction limit: the rows of an input stopped early are incomplete
+ */
+function limitMessage(limit: keyof ExtractionLimits, limits: ExtractionLimits, inputName: string, path: string): string {
+  switch (limit) {
+    case 'maxDepth':
+      return `Se omitió el archivo comprimido ${path}: está anidado a más de ${limits.maxDepth} niveles (límite de profundidad); sus archivos ASC no se analizaron`;
+    case 'maxTotalBytes':
+      return `Se detuvo la extracción de ${inputName} al leer ${path || inputName}: se superó el límite de ${formatBytes(limits.maxTotalBytes)} descomprimidos; los datos están incompletos`;
+    case 'maxEntries':
+      return `Se detuvo la extracción de ${inputName}${path ? ` en ${path}` : ''}: hay más de ${limits.maxEntries} archivos (límite de archivos); los datos están incompletos`;
+  }
+}
+
+/**
+ * Extract and parse the inputs and build the report tables, without the workbook
+ * All inputs are merged; the Origen column tells where each row came from.
+ */
+export const parseInputs = async (
+  inputs: PipelineInput[],
+  options: PipelineOptions = {},
+  callbacks: PipelineCallbacks = {}
+): Promise<ParsedInputs> => {
+  const { onProgress, onStatus, onDebug, onDiagnostics, signal } = callbacks;
+  const debug = (message: string) => onDebug?.(message);
+
+  // A workbook among the inputs is updated with the rows of the other ones
+  const workbookInputs = inputs.filter(input => isWorkbookInput(input.name));
+  if (workbookInputs.length > 1) {
+    throw new Error(`Solo se puede actualizar un libro de Excel a la vez (se recibieron ${workbookInputs.length})`);
+  }
+  const [workbookInput] = workbookInputs;
+  const dropInputs = inputs.filter(input => input !== workbookInput);
+
+  const parser = createAscParser({ keyFormat: options.keyFormat, sectionCatalog: options.sectionCatalog });
+  // Inputs that didn't contain any ASC file, reported once the parse diagnostics are known
+  const emptyInputs: Array<{ name: string; error: string | null }> = [];
+  // Extraction limits that stopped an input early or skipped a nested archive
+  const limits = { ...DEFAULT_EXTRACTION_LIMITS, ...options.extractionLimits };
+  const limitDiagnostics: Diagnostic[] = [];
+
+  // Extract and parse the ASC files in one pass: each entry is decompressed
+  // and parsed chunk by chunk, so large files are never held in memory as text
+  for (const [index, input] of dropInputs.entries()) {
+    signal?.throwIfAborted();
+    const inputProgress = (percent: number) => {
+      onProgress?.((index + percent / 100) / dropInputs.length * PARSE_PROGRESS);
+    };
+
+    if (!isArchiveInput(input.name)) {
+      onStatus?.(`Analizando ${input.name}...`);
+      await streamAscFile(input.data, parser.openFile(input.name, describeLooseFile(input.name)), options.encoding);
+      inputProgress(100);
+      continue;
+    }
+
+    onStatus?.(`Extrayendo y analizando archivos ASC de ${input.name}...`);
+    debug(`Iniciando extracción: ${input.name}`);
+
+    // Keep the last extraction error so it can be surfaced if nothing was extracted
+    let extractionError: string | null = null;
+    const extracted = await streamAscFromZip(input.data, {
+      onProgress: inputProgress,
+      onError: (errorMsg) => {
+        extractionError = errorMsg;
+        debug(`Error de extracción: ${errorMsg}`);
+      },
+      onInfo: debug,
+      onLimit: (limit, path) => {
+        limitDiagnostics.push({
+          severity: 'error', file: path ? `${input.name}/${path}` : input.name,
+          message: limitMessage(limit, limits, input.name, path)
+        });
+      },
+      signal,
+      encoding: options.encoding,
+      limits: options.extractionLimits,
+      openFile: (path) => {
+        const { source, filename } = describeEntry(input.name, path);
+        return parser.openFile(filename, source);
+      }
+    });
+    debug(`Extraídos ${extracted} archivos de ${input.name}`);
+    if (extracted === 0) {
+      emptyInputs.push({ name: input.name, error: extractionError });
+    }
+  }
+  signal?.throwIfAborted();
+
+  const fileCount = parser.fileCount();
+  if (fileCount === 0) {
+    const lastError = emptyInputs[emptyInputs.length - 1]?.error;
+    throw new Error(
+      'No se pudieron extraer archivos ASC del archivo ZIP. Los archivos ASC pueden estar en una estructura de subcarpetas.' +
+      (lastError ? ` (${lastError})` : '')
+    );
+  }
+
+  onStatus?.(`Se analizaron ${fileCount} archivos ASC de ${dropInputs.length} ${dropInputs.length === 1 ? 'entrada' : 'entradas'}.`);
+
+  const { sectionMap: parsedSections, diagnostics, error: parseError } = parser.finish();
+  diagnostics.push(...limitDiagnostics);
+  for (const emptyInput of emptyInputs) {
+    diagnostics.push({
+      severity: 'warning', file: emptyInput.name,
+      message: `No se encontraron archivos ASC en ${emptyInput.name}; se omitió`
+    });
+  }
+
+  // Remove (or flag) the rows repeated across overlapping deliveries
+  const dedupPolicy = options.dedup || 'none';
+  const deduplicated = dedupSections(parsedSections, dedupPolicy);
+  const { duplicates } = deduplicated;
+  diagnostics.push(...deduplicated.diagnostics);
+
+  // Add the new rows to the sections of the workbook being updated
+  let sectionMap = deduplicated.sectionMap;
+  let extraSheets: ExistingSheet[] | undefined;
+  if (workbookInput) {
+    onStatus?.(`Leyendo el libro existente ${workbookInput.name}...`);
+    const existing = await readExistingWorkbook(workbookInput.data, options.sectionCatalog).catch((error: unknown) => {
+      throw new Error(`No se pudo leer el libro ${workbookInput.name}: ${error instanceof Error ? error.message : String(error)}`);
+    });
+    if (existing.sectionMap.size === 0) {
+      diagnostics.push({
+        severity: 'warning', file: workbookInput.name,
+        message: `El libro ${workbookInput.name} no tiene hojas de secciones de Data Stage; solo se conservan sus otras hojas`
+      });
+    }
+    for (const name of existing.derivedSheets) {
+      diagnostics.push({
+        severity: 'info', file: workbookInput.name,
+        message: `La hoja "${name}" del libro existente no se copia; se vuelve a generar con los datos combinados si su opción está activada`
+      });
+    }
+    for (const { name } of existing.extraSheets) {
+      debug(`Se conserva la hoja "${name}" del libro existente`);
+    }
+
+    const merged = mergeIntoWorkbook(existing.sectionMap, sectionMap, options.updatePolicy || DEFAULT_UPDATE_POLICY);
+    sectionMap = merged.sectionMap;
+    diagnostics.push(...merged.diagnostics);
+    extraSheets = existing.extraSheets;
+  }
+
+  // Replace rectified pedimentos by their latest version
+  const reports: TableData[] = [];
+  if (options.currentState) {
+    const currentState = buildCurrentState(sectionMap);
+    sectionMap = currentState.sectionMap;
+    diagnostics.push(...currentState.diagnostics);
+    if (currentState.history) reports.push(currentState.history);
+  }
+
+  // Contribution reports, over the same rows as the section sheets
+  if (options.contributions) {
+    const summary = buildContributionSummary(sectionMap);
+    if (summary) reports.push(summary);
+    const reconciliation = buildContributionReconciliation(sectionMap);
+    if (reconciliation) {
+      reports.push(reconciliation);
+      const mismatches = reconciliation.rows.filter(row => row[0] !== 'OK').length;
+      if (mismatches > 0) {
+        diagnostics.push({
+          severity: 'warning', section: '557',
+          message: `${mismatches} contribuciones de 557 no cuadran con el importe pagado en 510 (ver hoja "${reconciliation.name}")`
+        });
+      }
+    } else {
+      diagnostics.push({
+        severity: 'info',
+        message: 'No se generó la conciliación de contribuciones: se necesitan las secciones 510 y 557'
+      });
+    }
+  }
+
+  // IMMEX temporary imports, returns and changes of regime, over the same rows too
+  if (options.immex) {
+    const immex = buildImmexReport(sectionMap);
+    if (immex) {
+      reports.push(immex.movements, immex.balance);
+      diagnostics.push(...immex.diagnostics);
+    } else {
+      diagnostics.push({
+        severity: 'info',
+        message: `No se generó el reporte IMMEX: no hay partidas (551) con claves de pedimento IMMEX (${Object.keys(IMMEX_DOCUMENTS).join(', ')})`
+      });
+    }
+  }
+
+  // Semantic checks of the final rows (formats, ranges, references between sections)
+  if (options.qualityRules) {
+    const quality = runQualityRules(sectionMap, options.qualityRules);
+    reports.push(quality.table);
+    diagnostics.push(...quality.diagnostics);
+  }
+
+  // Sections left out by the catalog are parsed (reports may use them) but get no sheet
+  const catalog = options.sectionCatalog || DEFAULT_SECTION_CATALOG;
+  for (const code of sectionMap.keys()) {
+    if (catalog[code] && !catalog[code].include) {
+      diagnostics.push({
+        severity: 'info', section: code,
+        message: `La sección ${code} está excluida en el catálogo de secciones; por omisión no se genera su hoja`
+      });
+    }
+  }
+
+  onDiagnostics?.(diagnostics);
+  if (diagnostics.length > 0) {
+    const counts = countDiagnostics(diagnostics);
+    debug(`Validación: ${counts.error} errores, ${counts.warning} advertencias, ${counts.info} avisos`);
+  }
+
+  if (parseError) {
+    debug(`Parse error: ${parseError}`);
+    throw new Error(parseError);
+  }
+
+  // Summarize section codes
+  const sections = Array.from(sectionMap.keys())
+    .sort()
+    .map(code => {
+      const rows = sectionMap.get(code) || [];
+      return { code, rows: rows.length, duplicates: duplicates.get(code) || 0, columns: Object.keys(rows[0] || {}) };
+    });
+
+  debug(`Se encontraron ${sections.length} códigos de sección diferentes`);
+  onStatus?.(`Datos analizados organizados en ${sections.length} códigos de sección:`);
+  for (const section of sections) {
+    const line = `Sección ${section.code}: ${section.rows} filas${formatDuplicates(section.duplicates, dedupPolicy)}`;
+    debug(line);
+    onStatus?.(line);
+  }
+  onProgress?.(PARSE_PROGRESS);
+
+  return { sectionMap, reports, extraSheets, diagnostics, sections, fileCount };
+};
+
+/**
+ * Parse two extractions of the same period separately (the previous one first) and
+ * compare them; the diff tables are returned as the reports, with no section tables
+ */
+export const compareInputs = async (
+  inputs: PipelineInput[],
+  options: PipelineOptions = {},
+  callbacks: PipelineCallbacks = {}
+): Promise<ParsedInputs> => {
+  if (inputs.length !== 2) {
+    throw new Error(`La comparación necesita exactamente dos extracciones, la anterior y la nueva (se recibieron ${inputs.length})`);
+  }
+  const { onProgress, onStatus, onDebug, onDiagnostics } = callbacks;
+
+  // Derived reports aren't compared, so they aren't built
+  const parseOptions: PipelineOptions = {
+    ...options, contributions: false, immex: false, qualityRules: undefined, compare: false
+  };
+  const parsed: ParsedInputs[] = [];
+  for (const [index, input] of inputs.entries()) {
+    parsed.push(await parseInputs([input], parseOptions, {
+      ...callbacks,
+      onProgress: (percent) => onProgress?.((index * PARSE_PROGRESS + percent) / 2),
+      onDiagnostics: undefined
+    }));
+  }
+  const [before, after] = parsed;
+
+  onStatus?.(`Comparando ${inputs[0].name} con ${inputs[1].name}...`);
+  const diff = diffSections(before.sectionMap, after.sectionMap, options);
+  for (const changes of diff.changes) {
+    const line = formatSectionChanges(changes);
+    onDebug?.(line);
+    onStatus?.(line);
+  }
+
+  const diagnostics = [...before.diagnostics, ...after.diagnostics];
+  onDiagnostics?.(diagnostics);
+
+  return {
+    sectionMap: new Map(),
+    reports: diff.tables,
+    diagnostics,
+    sections: after.sections,
+    fileCount: before.fileCount + after.fileCount,
+    changes: diff.changes
+  };
+};
+
+/**
+ * Build the output file of parsed inputs in the chosen format, optionally limited
+ * to the sections and columns picked in the review step
+ */
+export const generateOutput = async (
+  parsed: ParsedInputs,
+  options: PipelineOptions = {},
+  selection?: SectionSelection,
+  callbacks: PipelineCallbacks = {}
+): Promise<PipelineOutput> => {
+  const { onProgress, onStatus, onDebug } = callbacks;
+  const format = options.outputFormat || DEFAULT_OUTPUT_FORMAT;
+  const writer = OUTPUT_WRITERS[format];
+  if (!writer) {
+    throw new Error(`Formato de salida desconocido: ${format}`);
+  }
+
+  onStatus?.(`Generando archivo ${writer.label}...`);
+  onDebug?.(`Iniciando generación de salida (${format})...`);
+
+  const tables = collectTables(parsed.sectionMap, {
+    diagnostics: options.validationSheet ? parsed.diagnostics : undefined,
+    consolidation: options.consolidation,
+    reports: parsed.reports,
+    sectionCatalog: options.sectionCatalog,
+    sheetLanguage: options.sheetLanguage,
+    selection
+  });
+  onProgress?.(PARSE_PROGRESS + 5);
+
+  // Tables over the format's row limit continue on extra sheets/workbooks instead of failing
+  const splits = writer.split ? findTableSplits(tables, writer.split.maxRows) : [];
+  for (const split of splits) {
+    const line = `${formatTableSplit(split, format)} (límite: ${writer.split?.maxRows} filas)`;
+    onStatus?.(line);
+    onDebug?.(line);
+  }
+
+  // The user's sheets of an updated workbook only fit in the Excel formats
+  const extraSheets = writer.keepsExtraSheets ? parsed.extraSheets || [] : [];
+  if (!writer.keepsExtraSheets && parsed.extraSheets?.length) {
+    onStatus?.(`Las ${parsed.extraSheets.length} hojas adicionales del libro existente solo se conservan en los formatos Excel`);
+  }
+
+  const data = await writer.write(tables, {
+    csvDelimiter: options.csvDelimiter,
+    sqlWasmUrl: options.sqlWasmUrl,
+    indexSheet: options.indexSheet,
+    extraSheets
+  });
+  onDebug?.(`Salida generada: ${tables.length} tablas, ${data.byteLength} bytes`);
+
+  return {
+    data, format, extension: writer.extension, mimeType: writer.mimeType,
+    tableCount: tables.length + extraSheets.length, splits
+  };
+};
+
+/**
+ * Run the whole ZIP → output file pipeline over one or more inputs (or the comparison of two)
+ * Used by the Web Worker and the Node entry point so both produce the same output
+ */
+export const runPipeline = async (
+  inputs: PipelineInput[],
+  options: PipelineOptions = {},
+  callbacks: PipelineCallbacks = {}
+): Promise<PipelineResult> => {
+  const parsed = options.compare
+    ? await compareInputs(inputs, options, callbacks)
+    : await parseInputs(inputs, options, callbacks);
+  const output = await generateOutput(parsed, options, undefined, callbacks);
+  const { sectionMap, diagnostics, sections, fileCount, changes } = parsed;
+  return { output, sectionMap, diagnostics, sections, fileCount, changes };
+};
@@ -0,0 +1,148 @@
+import type { AscRow } from './parser';
+import { CellValue, formatCellValue } from './schema';
+
+/**
+ * Paged, sorted and filtered views of the parsed sections for the preview grid
+ * The rows stay where they were parsed (the Web Worker); the grid only asks for the
+ * window it shows, so sections with hundreds of thousands of rows stay responsive.
+ */
+
+export interface PreviewSort {
+  column: string;
+  descending: boolean;
+}
+
+export interface PreviewQuery {
+  section: string;
+  // Window of the filtered rows to return
+  offset: number;
+  limit: number;
+  sort?: PreviewSort;
+  // Case-insensitive "contains" filters per column
+  filters?: Record<string, string>;
+  // Pedimento number searched across all sections (separators are ignored)
+  pedimento?: string;
+}
+
+export interface PreviewPage {
+  section: string;
+  columns: string[];
+  offset: number;
+  rows: CellValue[][];
+  // Rows of the section matching the filters and the pedimento search
+  total: number;
+  // Rows matching the pedimento search in every section (all rows without a search)
+  sectionCounts: Record<string, number>;
+}
+
+export interface PreviewSource {
+  query: (query: PreviewQuery) => PreviewPage;
+}
+
+const KEY_COLUMN = 'No_Pedimento';
+
+/**
+ * Only letters and digits, so "25 47 3420 5001234" finds "25-47-3420-5001234"
+ */
+function normalizeKey(value: string): string {
+  return value.replace(/[^0-9a-z]/gi, '').toLowerCase();
+}
+
+// Created once: localeCompare builds a collator on every call, far too slow for large sorts
+const collator = new Intl.Collator(undefined, { numeric: true });
+
+/**
+ * Sort key of a cell: numbers and dates by value, everything else as text
+ */
+function sortKey(value: CellValue | undefined): number | string {
+  if (typeof value === 'number') return value;
+  if (value instanceof Date) return value.getTime();
+  return formatCellValue(value);
+}
+
+/**
+ * Order of two sort keys: numbers by value, text with locale rules, empty cells last
+ */
+function compareKeys(a: number | string, b: number | string): number {
+  if (a === '' || b === '') return Number(a === '') - Number(b === '');
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return collator.compare(String(a), String(b));
+}
+
+/**
+ * Rows of a section matching the pedimento search (all rows when there is none)
+ */
+function matchesPedimento(row: AscRow, search: string): boolean {
+  return !search || normalizeKey(formatCellValue(row[KEY_COLUMN])).includes(search);
+}
+
+/**
+ * Build a query source over parsed sections
+ * The indexes of the last filtered/sorted view are cached, so scrolling through
+ * it only slices rows
+ */
+export const createPreviewSource = (sectionMap: Map<string, AscRow[]>): PreviewSource => {
+  let cachedView: { key: string; indexes: number[] } | null = null;
+  let cachedCounts: { search: string; counts: Record<string, number> } | null = null;
+
+  const sectionCounts = (search: string): Record<string, number> => {
+    if (cachedCounts?.search !== search) {
+      const counts: Record<string, number> = {};
+      for (const [code, rows] of sectionMap.entries()) {
+        counts[code] = search ? rows.filter(row => matchesPedimento(row, search)).length : rows.length;
+      }
+      cachedCounts = { search, counts };
+    }
+    return cachedCounts.counts;
+  };
+
+  const view = (query: PreviewQuery, rows: AscRow[], search: string): number[] => {
+    const filters = Object.entries(query.filters || {})
+      .map(([column, value]): [string, string] => [column, value.trim().toLowerCase()])
+      .filter(([, value]) => value);
+    const key = JSON.stringify([query.section, query.sort, filters, search]);
+    if (cachedView?.key === key) return cachedView.indexes;
+
+    const indexes: number[] = [];
+    rows.forEach((row, index) => {
+      if (!matchesPedimento(row, search)) return;
+      for (const [column, value] of filters) {
+        if (!formatCellValue(row[column]).toLowerCase().includes(value)) return;
+      }
+      indexes.push(index);
+    });
+
+    const { sort } = query;
+    if (sort) {
+      const direction = sort.descending ? -1 : 1;
+      // Sort keys by row index, computed once instead of in every comparison
+      const keys = new Array<number | string>(rows.length);
+      for (const index of indexes) keys[index] = sortKey(rows[index][sort.column]);
+      // Stable on ties so equal values keep their file order
+      indexes.sort((a, b) => compareKeys(keys[a], keys[b]) * direction || a - b);
+    }
+
+    cachedView = { key, indexes };
+    return indexes;
+  };
+
+  return {
+    query: (query) => {
+      const rows = sectionMap.get(query.section) || [];
+      const columns = Object.keys(rows[0] || {});
+      const search = normalizeKey(query.pedimento || '');
+      const indexes = view(query, rows, search);
+
+      return {
+        section: query.section,
+        columns,
+        offset: query.offset,
+        rows: indexes
+          .slice(query.offset, query.offset + query.limit)
+          .map(index => columns.map(column => rows[index][column] ?? '')),
+        total: indexes.length,
+        sectionCounts: sectionCounts(search)
+      };
+    }
+  };
+};
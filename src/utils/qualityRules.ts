@@ -0,0 +1,298 @@
+import { AscRow, SOURCE_COLUMN } from './parser';
+import type { TableData } from './consolidate';
+import { Diagnostic, DiagnosticSeverity, SEVERITY_LABELS } from './diagnostics';
+import { CellValue, ColumnType, formatCellValue, getSectionSchema } from './schema';
+
+/**
+ * Semantic checks on the parsed rows (beyond the parse diagnostics): identifier formats,
+ * date ranges, amounts and the references between pedimentos, partidas and their children.
+ * Rules are declared as data and evaluated over the sectionMap; the severity of each one
+ * can be changed or the rule turned off
+ */
+
+export const QUALITY_SHEET_NAME = 'Reglas de calidad';
+
+// Severity of a rule as configured by the user; "off" skips the rule
+export type RuleSeverity = DiagnosticSeverity | 'off';
+
+export const RULE_SEVERITY_LABELS: Record<RuleSeverity, string> = {
+  ...SEVERITY_LABELS,
+  off: 'Desactivada'
+};
+
+// Severity per rule id; rules left out keep their default severity
+export type QualityRuleSettings = Partial<Record<string, RuleSeverity>>;
+
+/**
+ * Columns a rule checks: the given names and/or every column of a type in the section
+ * schema, in the given sections (default: every section that has them but the excluded ones)
+ */
+interface RuleTarget {
+  sections?: string[];
+  excludedSections?: string[];
+  columns?: string[];
+  columnType?: ColumnType;
+}
+
+interface RuleBase {
+  id: string;
+  label: string;
+  severity: DiagnosticSeverity;
+}
+
+/**
+ * A built-in rule
+ * - pattern: non-empty values match a regular expression
+ * - dateRange: dates fall between a day and the date of the run
+ * - minimum: numbers are not below a minimum
+ * - compare: a column is not below another one (optionally only on some rows)
+ * - reference: every row has a parent row in another section
+ */
+export type QualityRule = RuleBase & (
+  | (RuleTarget & { kind: 'pattern'; pattern: RegExp; expected: string })
+  | (RuleTarget & { kind: 'dateRange'; from: string })
+  | (RuleTarget & { kind: 'minimum'; minimum: number })
+  | { kind: 'compare'; section: string; column: string; atLeast: string; when?: { column: string; values: string[] } }
+  | { kind: 'reference'; section: string; parent: string; join: string[] }
+);
+
+const PEDIMENTO_JOIN = ['Patente', 'Pedimento', 'SeccionAduanera'];
+const PARTIDA_JOIN = [...PEDIMENTO_JOIN, 'SecuenciaFraccion'];
+
+export const QUALITY_RULES: QualityRule[] = [
+  {
+    id: 'rfc', label: 'RFC del contribuyente (501) con formato válido', severity: 'warning',
+    kind: 'pattern', sections: ['501'], columns: ['Rfc'],
+    // Personas morales have 3 letters and personas físicas 4, then the AAMMDD date and the homoclave
+    pattern: /^[A-ZÑ&]{3,4}\d{6}[A-Z\d]{3}$/,
+    expected: 'RFC de 12 o 13 caracteres (3 o 4 letras, fecha AAMMDD y homoclave)'
+  },
+  {
+    id: 'fraccion', label: 'Fracción arancelaria de 8 dígitos (10 con NICO)', severity: 'warning',
+    kind: 'pattern', sections: ['551', '512'], columnType: 'fraccion',
+    pattern: /^\d{8}(\d{2})?$/,
+    expected: '8 dígitos (10 con el NICO)'
+  },
+  {
+    id: 'patente', label: 'Patente de 4 dígitos', severity: 'error',
+    kind: 'pattern', columns: ['Patente', 'PatenteAnterior', 'PatenteAduanalOrig'],
+    pattern: /^\d{4}$/,
+    expected: '4 dígitos'
+  },
+  {
+    id: 'pedimento', label: 'Consecutivo del pedimento de 7 dígitos', severity: 'error',
+    kind: 'pattern', columns: ['Pedimento', 'PedimentoAnterior', 'PedimentoOriginal'],
+    pattern: /^\d{7}$/,
+    expected: '7 dígitos'
+  },
+  {
+    id: 'fechas', label: 'Fechas entre 1990 y la fecha de la conversión', severity: 'warning',
+    kind: 'dateRange', columnType: 'datetime', from: '1990-01-01'
+  },
+  {
+    id: 'importes', label: 'Importes, valores y cantidades no negativos (salvo las diferencias de rectificación, 702)', severity: 'warning',
+    kind: 'minimum', columnType: 'decimal', minimum: 0,
+    // 702 holds the contribution differences of rectifications, negative when they lower what is owed
+    excludedSections: ['702']
+  },
+  {
+    id: 'valor-aduana', label: 'ValorAduana mayor o igual que ValorComercial en importaciones (551)', severity: 'warning',
+    kind: 'compare', section: '551', column: 'ValorAduana', atLeast: 'ValorComercial',
+    // Exports declare no valor en aduana
+    when: { column: 'TipoOperacion', values: ['1'] }
+  },
+  {
+    id: 'partida-pedimento', label: 'Cada partida (551) tiene los datos generales de su pedimento (501)', severity: 'error',
+    kind: 'reference', section: '551', parent: '501', join: PEDIMENTO_JOIN
+  },
+  {
+    id: 'contribucion-partida', label: 'Cada contribución por partida (557) tiene su partida (551)', severity: 'error',
+    kind: 'reference', section: '557', parent: '551', join: PARTIDA_JOIN
+  }
+];
+
+// Per rule, report this many rows as diagnostics before summarizing (the sheet lists all of them)
+const MAX_RULE_DIAGNOSTICS = 20;
+
+interface Violation {
+  section: string;
+  row: AscRow;
+  column: string;
+  value: CellValue;
+  message: string;
+}
+
+export interface QualityResult {
+  // One row per rule violation
+  table: TableData;
+  diagnostics: Diagnostic[];
+}
+
+function text(value: CellValue | undefined): string {
+  return String(value ?? '').trim();
+}
+
+function joinKey(row: AscRow, columns: string[]): string {
+  return columns.map(column => text(row[column])).join('|');
+}
+
+/**
+ * Readable key of a row: its No_Partida or No_Pedimento
+ */
+function rowKey(row: AscRow): string {
+  return text(row['No_Partida'] ?? row['No_Pedimento']);
+}
+
+/**
+ * Columns of a section checked by a column rule
+ */
+function targetColumns(target: RuleTarget, section: string, rows: AscRow[]): string[] {
+  if (target.sections && !target.sections.includes(section)) return [];
+  if (target.excludedSections?.includes(section)) return [];
+  const present = Object.keys(rows[0] || {});
+  const typed = target.columnType
+    ? (getSectionSchema(section)?.columns || []).filter(column => column.type === target.columnType).map(column => column.name)
+    : [];
+  return [...(target.columns || []), ...typed].filter(column => present.includes(column));
+}
+
+/**
+ * Check every value of the target columns with a predicate returning the violation message
+ */
+function checkColumns(
+  sectionMap: Map<string, AscRow[]>,
+  target: RuleTarget,
+  check: (value: CellValue, column: string) => string | null
+): Violation[] {
+  const violations: Violation[] = [];
+  for (const [section, rows] of sectionMap) {
+    const columns = targetColumns(target, section, rows);
+    if (columns.length === 0) continue;
+    for (const row of rows) {
+      for (const column of columns) {
+        const value = row[column];
+        if (value === undefined || value === '') continue;
+        const message = check(value, column);
+        if (message) violations.push({ section, row, column, value, message });
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * Rows breaking a rule, or why the rule couldn't be checked on these sections
+ */
+function evaluateRule(rule: QualityRule, sectionMap: Map<string, AscRow[]>, now: Date): Violation[] | string {
+  switch (rule.kind) {
+    case 'pattern':
+      return checkColumns(sectionMap, rule, (value, column) =>
+        rule.pattern.test(text(value)) ? null : `${column} "${formatCellValue(value)}" no cumple el formato esperado: ${rule.expected}`
+      );
+    case 'dateRange': {
+      const [year, month, day] = rule.from.split('-').map(Number);
+      const from = new Date(year, month - 1, day);
+      return checkColumns(sectionMap, rule, (value, column) =>
+        value instanceof Date && (value < from || value > now)
+          ? `${column} ${formatCellValue(value)} fuera del rango esperado (${rule.from} a la fecha de la conversión)`
+          : null
+      );
+    }
+    case 'minimum':
+      return checkColumns(sectionMap, rule, (value, column) =>
+        typeof value === 'number' && value < rule.minimum ? `${column} es menor que ${rule.minimum} (${value})` : null
+      );
+    case 'compare': {
+      const violations: Violation[] = [];
+      for (const row of sectionMap.get(rule.section) || []) {
+        if (rule.when && !rule.when.values.includes(text(row[rule.when.column]))) continue;
+        const value = row[rule.column];
+        const other = row[rule.atLeast];
+        if (typeof value !== 'number' || typeof other !== 'number' || value >= other) continue;
+        violations.push({
+          section: rule.section, row, column: rule.column, value,
+          message: `${rule.column} (${value}) es menor que ${rule.atLeast} (${other})`
+        });
+      }
+      return violations;
+    }
+    case 'reference': {
+      const rows = sectionMap.get(rule.section) || [];
+      const parents = sectionMap.get(rule.parent);
+      if (!parents) return rows.length > 0 ? `los datos no incluyen la sección ${rule.parent}` : [];
+      const parentKeys = new Set(parents.map(row => joinKey(row, rule.join)));
+      return rows
+        .filter(row => !parentKeys.has(joinKey(row, rule.join)))
+        .map(row => ({
+          section: rule.section, row, column: '', value: '',
+          message: `No se encontró la fila de la sección ${rule.parent} que le corresponde`
+        }));
+    }
+  }
+}
+
+/**
+ * Severity a rule is reported with, after the user's settings
+ */
+export const ruleSeverity = (rule: QualityRule, settings: QualityRuleSettings = {}): RuleSeverity => {
+  return settings[rule.id] ?? rule.severity;
+};
+
+/**
+ * Run the quality rules over the parsed sections: the rows breaking each rule are
+ * listed in a table and reported as diagnostics with the rule's severity
+ */
+export const runQualityRules = (
+  sectionMap: Map<string, AscRow[]>,
+  settings: QualityRuleSettings = {},
+  now: Date = new Date()
+): QualityResult => {
+  const diagnostics: Diagnostic[] = [];
+  const rows: CellValue[][] = [];
+  let checked = 0;
+
+  for (const rule of QUALITY_RULES) {
+    const severity = ruleSeverity(rule, settings);
+    if (severity === 'off') continue;
+
+    const violations = evaluateRule(rule, sectionMap, now);
+    if (typeof violations === 'string') {
+      diagnostics.push({ severity: 'info', message: `No se revisó la regla "${rule.label}": ${violations}` });
+      continue;
+    }
+    checked++;
+
+    violations.forEach((violation, index) => {
+      rows.push([
+        SEVERITY_LABELS[severity], rule.label, violation.section, rowKey(violation.row),
+        violation.column, formatCellValue(violation.value), violation.message, violation.row[SOURCE_COLUMN] ?? ''
+      ]);
+      if (index < MAX_RULE_DIAGNOSTICS) {
+        diagnostics.push({
+          severity, section: violation.section, column: violation.column || undefined,
+          message: `${rowKey(violation.row)}: ${violation.message}`
+        });
+      }
+    });
+    if (violations.length > MAX_RULE_DIAGNOSTICS) {
+      diagnostics.push({
+        severity,
+        message: `${violations.length - MAX_RULE_DIAGNOSTICS} filas más no cumplen la regla "${rule.label}" (ver hoja "${QUALITY_SHEET_NAME}")`
+      });
+    }
+  }
+
+  if (rows.length === 0 && checked > 0) {
+    diagnostics.push({ severity: 'info', message: `Se revisaron ${checked} reglas de calidad sin encontrar incumplimientos` });
+  }
+
+  return {
+    table: {
+      name: QUALITY_SHEET_NAME,
+      headers: ['Severidad', 'Regla', 'Sección', 'Clave', 'Columna', 'Valor', 'Mensaje', SOURCE_COLUMN],
+      columnTypes: ['text', 'text', 'text', 'text', 'text', 'text', 'text', 'text'],
+      rows
+    },
+    diagnostics
+  };
+};
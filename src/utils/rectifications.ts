@@ -0,0 +1,246 @@
+import type { AscRow } from './parser';
+import type { TableData } from './consolidate';
+import type { Diagnostic } from './diagnostics';
+import { buildPedimentoKey } from './pedimentoKey';
+import { CellValue, ColumnType } from './schema';
+
+/**
+ * Section 701 (Rectificaciones) links a rectification pedimento (its own Patente,
+ * Pedimento and SeccionAduanera) to the pedimento it replaces (the *Anterior columns)
+ * and to the first pedimento of the chain (the *Orig columns). 702 carries the
+ * contribution differences paid by the rectification.
+ */
+
+// Link columns added to the 701 rows by the parser
+export const PREVIOUS_KEY_COLUMN = 'No_Pedimento_Anterior';
+export const ORIGINAL_KEY_COLUMN = 'No_Pedimento_Original';
+
+// Added to every row of the current-state view: the pedimento the row's version replaced
+export const SUPERSEDED_COLUMN = 'Rectifica_a';
+
+export const HISTORY_SHEET_NAME = 'Historial de rectificaciones';
+
+export interface CurrentStateResult {
+  // Sections with only the latest effective version of each pedimento
+  sectionMap: Map<string, AscRow[]>;
+  history: TableData | null;
+  diagnostics: Diagnostic[];
+}
+
+const PEDIMENTO_JOIN = ['Patente', 'Pedimento', 'SeccionAduanera'];
+const PREVIOUS_JOIN = ['PatenteAnterior', 'PedimentoAnterior', 'SeccionAduaneraAnterior'];
+const ORIGINAL_JOIN = ['PatenteAduanalOrig', 'PedimentoOriginal', 'SeccionAduaneraDespOrig'];
+
+// The rectification tables themselves are kept whole
+const RECTIFICATION_SECTIONS = ['701', '702'];
+
+/**
+ * Join key of a row ("" when a component is missing); numbers and text compare equal
+ */
+function joinKey(row: Record<string, CellValue | undefined>, columns: string[]): string {
+  const parts = columns.map(column => String(row[column] ?? '').trim());
+  return parts.every(Boolean) ? parts.join('|') : '';
+}
+
+/**
+ * Build the No_Pedimento-formatted keys of the pedimento a 701 row rectifies and of the
+ * original pedimento, so they can be looked up in the other sheets
+ * The original's payment year isn't in 701; it's only known when it is the rectified pedimento
+ */
+export const buildRectificationLinks = (row: Record<string, string>, format?: string): AscRow => {
+  const previous = buildPedimentoKey({
+    Patente: row.PatenteAnterior || '',
+    Pedimento: row.PedimentoAnterior || '',
+    SeccionAduanera: row.SeccionAduaneraAnterior || '',
+    FechaPagoReal: row.FechaOperacionAnterior || ''
+  }, format);
+
+  const originalJoin = joinKey(row, ORIGINAL_JOIN);
+  let original = '';
+  if (originalJoin === joinKey(row, PREVIOUS_JOIN)) {
+    original = originalJoin ? previous.key : '';
+  } else if (originalJoin) {
+    original = buildPedimentoKey({
+      Patente: row.PatenteAduanalOrig,
+      Pedimento: row.PedimentoOriginal,
+      SeccionAduanera: row.SeccionAduaneraDespOrig
+    }, format).key;
+  }
+
+  return { [PREVIOUS_KEY_COLUMN]: previous.key, [ORIGINAL_KEY_COLUMN]: original };
+};
+
+/**
+ * Payment date of a rectification as a timestamp
+ */
+function rectificationDate(row: AscRow): number {
+  const value = row.FechaPago instanceof Date ? row.FechaPago : row.FechaPagoReal;
+  return value instanceof Date ? value.getTime() : -Infinity;
+}
+
+/**
+ * Copy a row inserting a column right after No_Pedimento
+ */
+export const withColumnAfterKey = (row: AscRow, column: string, value: CellValue): AscRow => {
+  const result: AscRow = {};
+  for (const [name, cell] of Object.entries(row)) {
+    result[name] = cell;
+    if (name === 'No_Pedimento') result[column] = value;
+  }
+  if (!(column in result)) result[column] = value;
+  return result;
+};
+
+/**
+ * Keep only the latest effective version of each pedimento in every section and
+ * describe the rectification chains in a history table
+ * A rectification only replaces its predecessor when its own general data (501) was
+ * delivered; otherwise the predecessor stays as the current version and a warning is reported
+ */
+export const buildCurrentState = (sectionMap: Map<string, AscRow[]>): CurrentStateResult => {
+  const rectifications = sectionMap.get('701') || [];
+  const generalRows = sectionMap.get('501') || [];
+  const diagnostics: Diagnostic[] = [];
+
+  if (rectifications.length === 0) {
+    return { sectionMap, history: null, diagnostics };
+  }
+
+  // Display key (No_Pedimento) of every pedimento mentioned in the data
+  const labels = new Map<string, string>();
+  const addLabel = (key: string, label: CellValue | undefined) => {
+    if (key && label && !labels.has(key)) labels.set(key, String(label));
+  };
+  for (const row of [...generalRows, ...rectifications]) {
+    addLabel(joinKey(row, PEDIMENTO_JOIN), row.No_Pedimento);
+  }
+  for (const row of rectifications) {
+    addLabel(joinKey(row, PREVIOUS_JOIN), row[PREVIOUS_KEY_COLUMN]);
+    addLabel(joinKey(row, ORIGINAL_JOIN), row[ORIGINAL_KEY_COLUMN]);
+  }
+  const label = (key: string) => labels.get(key) || key;
+
+  // Latest rectification replacing each pedimento, and the pedimento each rectification replaced
+  const successors = new Map<string, { key: string; date: number }>();
+  const predecessors = new Map<string, string>();
+  for (const row of rectifications) {
+    const key = joinKey(row, PEDIMENTO_JOIN);
+    const previous = joinKey(row, PREVIOUS_JOIN);
+    if (!key || !previous) {
+      diagnostics.push({
+        severity: 'warning', section: '701',
+        message: `La rectificación ${row.No_Pedimento} no indica el pedimento que rectifica; se ignora en la vista vigente`
+      });
+      continue;
+    }
+    if (key === previous) continue;
+
+    const date = rectificationDate(row);
+    const existing = successors.get(previous);
+    if (!existing || date >= existing.date) {
+      successors.set(previous, { key, date });
+    }
+    predecessors.set(key, previous);
+  }
+
+  // Without 501 there is nothing to check the rectifications against
+  const delivered = new Set(generalRows.map(row => joinKey(row, PEDIMENTO_JOIN)));
+  const isDelivered = (key: string) => generalRows.length === 0 || delivered.has(key);
+
+  for (const [previous, successor] of successors.entries()) {
+    if (!isDelivered(successor.key)) {
+      diagnostics.push({
+        severity: 'warning', section: '501',
+        message: `La rectificación ${label(successor.key)} no tiene datos generales (501); ${label(previous)} se conserva como vigente`
+      });
+    }
+  }
+
+  // Follow the chain while the next version was delivered. A cycle (A rectified by B and
+  // B by A) stops at the last version seen before the repeat, which is then the current
+  // version of every pedimento of the chain so one of them stays visible
+  const resolved = new Map<string, string>();
+  const currentVersion = (key: string): string => {
+    const chain = [key];
+    let current = resolved.get(key);
+    for (let next = successors.get(key); !current; next = successors.get(chain[chain.length - 1])) {
+      if (!next || !isDelivered(next.key)) {
+        current = chain[chain.length - 1];
+      } else if (resolved.has(next.key)) {
+        current = resolved.get(next.key);
+      } else if (chain.includes(next.key)) {
+        current = chain[chain.length - 1];
+        const cycle = [...chain.slice(chain.indexOf(next.key)), next.key];
+        diagnostics.push({
+          severity: 'warning', section: '701',
+          message: `Las rectificaciones forman un ciclo (${cycle.map(label).join(' → ')}); se toma ${label(current)} como vigente`
+        });
+      } else {
+        chain.push(next.key);
+      }
+    }
+    for (const version of chain) resolved.set(version, current);
+    return current;
+  };
+
+  const currentSections = new Map<string, AscRow[]>();
+  for (const [sectionCode, rows] of sectionMap.entries()) {
+    if (RECTIFICATION_SECTIONS.includes(sectionCode)) {
+      currentSections.set(sectionCode, rows);
+      continue;
+    }
+
+    const currentRows: AscRow[] = [];
+    for (const row of rows) {
+      const key = joinKey(row, PEDIMENTO_JOIN);
+      if (key && currentVersion(key) !== key) continue;
+      const previous = predecessors.get(key);
+      currentRows.push(withColumnAfterKey(row, SUPERSEDED_COLUMN, previous ? label(previous) : ''));
+    }
+    currentSections.set(sectionCode, currentRows);
+
+    const hiddenRows = rows.length - currentRows.length;
+    if (hiddenRows > 0) {
+      diagnostics.push({
+        severity: 'info', section: sectionCode,
+        message: `Se ocultaron ${hiddenRows} filas de pedimentos reemplazados por una rectificación`
+      });
+    }
+  }
+
+  // Contribution differences paid by each rectification
+  const differences = new Map<string, number>();
+  for (const row of sectionMap.get('702') || []) {
+    const key = joinKey(row, PEDIMENTO_JOIN);
+    if (typeof row.ImporteContribucion === 'number') {
+      differences.set(key, (differences.get(key) || 0) + row.ImporteContribucion);
+    }
+  }
+
+  const headers = [
+    'No_Pedimento', SUPERSEDED_COLUMN, 'Pedimento_Original', 'Pedimento_Vigente', 'Vigente',
+    'ClaveDocumento', 'FechaPago', 'Diferencia_Contribuciones_702'
+  ];
+  const columnTypes: ColumnType[] = ['text', 'text', 'text', 'text', 'text', 'text', 'datetime', 'decimal'];
+  const historyRows: CellValue[][] = rectifications.map(row => {
+    const key = joinKey(row, PEDIMENTO_JOIN);
+    const current = key ? currentVersion(key) : '';
+    const difference = differences.get(key);
+    return [
+      row.No_Pedimento ?? '',
+      label(joinKey(row, PREVIOUS_JOIN)) || row[PREVIOUS_KEY_COLUMN] || '',
+      label(joinKey(row, ORIGINAL_JOIN)) || row[ORIGINAL_KEY_COLUMN] || '',
+      current ? label(current) : '',
+      current && current === key ? 'Sí' : 'No',
+      row.ClaveDocumento ?? '',
+      row.FechaPago ?? row.FechaPagoReal ?? '',
+      difference !== undefined ? Math.round(difference * 1e6) / 1e6 : ''
+    ];
+  });
+
+  return {
+    sectionMap: currentSections,
+    history: { name: HISTORY_SHEET_NAME, headers, columnTypes, rows: historyRows },
+    diagnostics
+  };
+};
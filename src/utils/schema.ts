@@ -0,0 +1,274 @@
+/**
+ * Data Stage table layouts (SAT "Formato de archivos Data Stage")
+ * Each section code describes its expected columns in order, the data type of
+ * every column and which columns form the natural key of a row.
+ */
+
+export type ColumnType = 'text' | 'integer' | 'decimal' | 'datetime' | 'rfc' | 'fraccion';
+
+export type CellValue = string | number | Date;
+
+// Descriptions used in diagnostics and the UI
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  text: 'texto',
+  integer: 'número entero',
+  decimal: 'número decimal',
+  datetime: 'fecha (AAAA-MM-DD HH:MM:SS)',
+  rfc: 'RFC',
+  fraccion: 'fracción arancelaria'
+};
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+}
+
+export interface SectionSchema {
+  code: string;
+  level: 'pedimento' | 'partida';
+  columns: ColumnSchema[];
+  key: string[];
+}
+
+export interface HeaderValidation {
+  missingColumns: string[];
+  unexpectedColumns: string[];
+}
+
+// Small helpers to keep the table definitions readable
+const text = (name: string): ColumnSchema => ({ name, type: 'text' });
+const integer = (name: string): ColumnSchema => ({ name, type: 'integer' });
+const decimal = (name: string): ColumnSchema => ({ name, type: 'decimal' });
+const datetime = (name: string): ColumnSchema => ({ name, type: 'datetime' });
+const rfc = (name: string): ColumnSchema => ({ name, type: 'rfc' });
+const fraccion = (name: string): ColumnSchema => ({ name, type: 'fraccion' });
+
+// Every table starts with the pedimento identification
+const PEDIMENTO_COLUMNS = [text('Patente'), text('Pedimento'), text('SeccionAduanera')];
+const PEDIMENTO_KEY = ['Patente', 'Pedimento', 'SeccionAduanera'];
+
+// Partida tables add the fracción and its sequence inside the pedimento
+const PARTIDA_COLUMNS = [...PEDIMENTO_COLUMNS, fraccion('Fraccion'), integer('SecuenciaFraccion')];
+const PARTIDA_KEY = [...PEDIMENTO_KEY, 'SecuenciaFraccion'];
+
+/**
+ * Natural key of a section without its own schema (or whose level was changed in the catalog)
+ */
+export const levelKey = (level: SectionSchema['level']): string[] => {
+  return level === 'partida' ? PARTIDA_KEY : PEDIMENTO_KEY;
+};
+
+const pedimentoTable = (code: string, columns: ColumnSchema[], extraKey: string[] = []): SectionSchema => ({
+  code,
+  level: 'pedimento',
+  columns: [...PEDIMENTO_COLUMNS, ...columns],
+  key: [...PEDIMENTO_KEY, ...extraKey]
+});
+
+const partidaTable = (code: string, columns: ColumnSchema[], extraKey: string[] = []): SectionSchema => ({
+  code,
+  level: 'partida',
+  columns: [...PARTIDA_COLUMNS, ...columns],
+  key: [...PARTIDA_KEY, ...extraKey]
+});
+
+const SECTION_SCHEMA_LIST: SectionSchema[] = [
+  // Tablas con información a nivel de pedimento
+  pedimentoTable('501', [
+    text('TipoOperacion'), text('ClaveDocumento'), text('SeccionAduaneraEntrada'),
+    text('CurpContribuyente'), rfc('Rfc'), text('CurpAgenteA'), decimal('TipoCambio'),
+    decimal('TotalFletes'), decimal('TotalSeguros'), decimal('TotalEmbalajes'),
+    decimal('TotalIncrementables'), decimal('TotalDeducibles'), decimal('PesoBrutoMercancia'),
+    text('MedioTransporteSalida'), text('MedioTransporteArribo'), text('MedioTransporteEntrada_Salida'),
+    text('DestinoMercancia'), text('NombreContribuyente'), text('CalleContribuyente'),
+    text('NumInteriorContribuyente'), text('NumExteriorContribuyente'), text('CPContribuyente'),
+    text('MunicipioContribuyente'), text('EntidadFedContribuyente'), text('PaisContribuyente'),
+    text('TipoPedimento'), datetime('FechaRecepcionPedimento'), datetime('FechaPagoReal')
+  ]),
+  pedimentoTable('502', [
+    rfc('RFCTransportista'), text('CURPTransportista'), text('NombreTransportista'),
+    text('PaisTransporte'), text('IdentificadorTransporte'), datetime('FechaPagoReal')
+  ], ['IdentificadorTransporte']),
+  pedimentoTable('503', [
+    text('NumeroGuia'), text('TipoGuia'), datetime('FechaPagoReal')
+  ], ['NumeroGuia']),
+  pedimentoTable('504', [
+    text('NumeroContenedor'), text('TipoContenedor'), datetime('FechaPagoReal')
+  ], ['NumeroContenedor']),
+  pedimentoTable('505', [
+    datetime('FechaFacturacion'), text('NumeroFactura'), text('TerminoFacturacion'),
+    text('MonedaFacturacion'), decimal('ValorDolares'), decimal('ValorMonedaExtranjera'),
+    text('PaisFacturacion'), text('EntidadFedFacturacion'), text('IndentFiscalProveedor'),
+    text('ProveedorMercancia'), text('CalleProveedor'), text('NumInteriorProveedor'),
+    text('NumExteriorProveedor'), text('CpProveedor'), text('MunicipioProveedor'),
+    datetime('FechaPagoReal')
+  ], ['NumeroFactura']),
+  pedimentoTable('506', [
+    text('TipoFecha'), datetime('FechaOperacion'), datetime('FechaValidacionPagoR')
+  ], ['TipoFecha']),
+  pedimentoTable('507', [
+    text('ClaveCaso'), text('IdentificadorCaso'), text('TipoPedimento'),
+    text('ComplementoCaso'), datetime('FechaValidacionPagoR')
+  ], ['ClaveCaso', 'IdentificadorCaso']),
+  pedimentoTable('508', [
+    text('InstitucionEmisora'), text('NumeroCuenta'), text('FolioConstancia'),
+    datetime('FechaConstancia'), text('TipoCuenta'), text('ClaveGarantia'),
+    decimal('ValorUnitarioTitulo'), decimal('TotalGarantia'), decimal('CantidadUnidadesMedida'),
+    decimal('TitulosAsignados'), datetime('FechaPagoReal')
+  ], ['FolioConstancia']),
+  pedimentoTable('509', [
+    text('ClaveContribucion'), decimal('TasaContribucion'), text('TipoTasa'),
+    text('TipoPedimento'), datetime('FechaPagoReal')
+  ], ['ClaveContribucion', 'TipoTasa']),
+  pedimentoTable('510', [
+    text('ClaveContribucion'), text('FormaPago'), decimal('ImportePago'),
+    text('TipoPedimento'), datetime('FechaPagoReal')
+  ], ['ClaveContribucion', 'FormaPago']),
+  pedimentoTable('511', [
+    integer('SecuenciaObservacion'), text('Observaciones'), text('TipoPedimento'),
+    datetime('FechaValidacionPagoR')
+  ], ['SecuenciaObservacion']),
+  pedimentoTable('512', [
+    text('PatenteAduanalOrig'), text('PedimentoOriginal'), text('SeccionAduaneraDespOrig'),
+    text('DocumentoOriginal'), datetime('FechaOperacionOrig'), fraccion('FraccionOriginal'),
+    text('UnidadMedida'), decimal('MercanciaDescargada'), text('TipoPedimento'),
+    datetime('FechaPagoReal')
+  ], ['PatenteAduanalOrig', 'PedimentoOriginal', 'SeccionAduaneraDespOrig', 'FraccionOriginal']),
+  pedimentoTable('520', [
+    text('IdFiscalDestinatario'), text('NombreDestinatario'), text('CalleDestinatario'),
+    text('NumInteriorDestinatario'), text('NumExteriorDestinatario'), text('CPDestinatario'),
+    text('MunicipioDestinatario'), text('PaisDestinatario'), datetime('FechaPagoReal')
+  ], ['IdFiscalDestinatario']),
+  pedimentoTable('701', [
+    text('ClaveDocumento'), datetime('FechaPago'), text('PedimentoAnterior'),
+    text('PatenteAnterior'), text('SeccionAduaneraAnterior'), text('DocumentoAnterior'),
+    datetime('FechaOperacionAnterior'), text('PedimentoOriginal'), text('PatenteAduanalOrig'),
+    text('SeccionAduaneraDespOrig'), datetime('FechaPagoReal')
+  ], ['PatenteAnterior', 'PedimentoAnterior', 'SeccionAduaneraAnterior']),
+  pedimentoTable('702', [
+    text('ClaveContribucion'), text('FormaPago'), decimal('ImporteContribucion'),
+    text('TipoPedimento'), datetime('FechaPagoReal')
+  ], ['ClaveContribucion', 'FormaPago']),
+  // Tablas con información a nivel de partida (Secuencia de la fracción arancelaria)
+  partidaTable('551', [
+    text('SubdivisionFraccion'), text('DescripcionMercancia'), decimal('PrecioUnitario'),
+    decimal('ValorAduana'), decimal('ValorComercial'), decimal('ValorDolares'),
+    decimal('CantidadUMComercial'), text('UnidadMedidaComercial'), decimal('CantidadUMTarifa'),
+    text('UnidadMedidaTarifa'), decimal('ValorAgregado'), text('ClaveVinculacion'),
+    text('MetodoValorizacion'), text('CodigoMercanciaProducto'), text('MarcaMercanciaProducto'),
+    text('ModeloMercanciaProducto'), text('PaisOrigenDestino'), text('PaisCompradorVendedor'),
+    text('EntidadFedOrigen'), text('EntidadFedDestino'), text('EntidadFedComprador'),
+    text('EntidadFedVendedor'), text('TipoOperacion'), text('ClaveDocumento'),
+    datetime('FechaPagoReal')
+  ]),
+  partidaTable('552', [
+    text('VinNumeroSerie'), decimal('KilometrajeVehiculo'), datetime('FechaPagoReal')
+  ], ['VinNumeroSerie']),
+  partidaTable('553', [
+    text('ClavePermiso'), text('FirmaDescargo'), text('NumeroPermiso'),
+    decimal('ValorComercialDolares'), decimal('CantidadMercanciaUMTarifa'), datetime('FechaPagoReal')
+  ], ['ClavePermiso', 'NumeroPermiso']),
+  partidaTable('554', [
+    text('ClaveCaso'), text('IdentificadorCaso'), text('ComplementoCaso'), datetime('FechaPagoReal')
+  ], ['ClaveCaso', 'IdentificadorCaso']),
+  partidaTable('555', [
+    text('InstitucionEmisora'), text('NumeroCuenta'), text('FolioConstancia'),
+    datetime('FechaConstancia'), text('ClaveGarantia'), decimal('ValorUnitarioTitulo'),
+    decimal('TotalGarantia'), decimal('CantidadUnidadesMedida'), decimal('TitulosAsignados'),
+    datetime('FechaPagoReal')
+  ], ['FolioConstancia']),
+  partidaTable('556', [
+    text('ClaveContribucion'), decimal('TasaContribucion'), text('TipoTasa'), datetime('FechaPagoReal')
+  ], ['ClaveContribucion', 'TipoTasa']),
+  partidaTable('557', [
+    text('ClaveContribucion'), text('FormaPago'), decimal('ImportePago'), datetime('FechaPagoReal')
+  ], ['ClaveContribucion', 'FormaPago']),
+  {
+    // 558 has no fracción column, only the sequence
+    code: '558',
+    level: 'partida',
+    columns: [...PEDIMENTO_COLUMNS, integer('SecuenciaFraccion'), text('Observaciones'), datetime('FechaPagoReal')],
+    key: PARTIDA_KEY
+  }
+];
+
+export const SECTION_SCHEMAS: Record<string, SectionSchema> = Object.fromEntries(
+  SECTION_SCHEMA_LIST.map(schema => [schema.code, schema])
+);
+
+/**
+ * Get the schema for a section code (undefined for codes outside the Data Stage layout)
+ */
+export const getSectionSchema = (sectionCode: string): SectionSchema | undefined => {
+  return SECTION_SCHEMAS[sectionCode];
+};
+
+/**
+ * Compare a file's header row against the expected columns of its section
+ */
+export const validateHeaders = (schema: SectionSchema, headers: string[]): HeaderValidation => {
+  const expected = schema.columns.map(column => column.name);
+  return {
+    missingColumns: expected.filter(name => !headers.includes(name)),
+    unexpectedColumns: headers.filter(name => name && !expected.includes(name))
+  };
+};
+
+/**
+ * Parse a Data Stage date ("YYYY-MM-DD" or "YYYY-MM-DD HH:MM:SS") as a local date
+ * Local time keeps the wall-clock value when the date is written to Excel
+ */
+function parseDateTime(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) return null;
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(part => Number(part ?? 0));
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  // Date rolls impossible values over (2024-02-30 becomes March 1st): reject them instead
+  const rolledOver = date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day ||
+    date.getHours() !== hours || date.getMinutes() !== minutes || date.getSeconds() !== seconds;
+  return rolledOver ? null : date;
+}
+
+/**
+ * Format a date back to the Data Stage text representation ("YYYY-MM-DD HH:MM:SS")
+ */
+export const formatDateTime = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+/**
+ * Text form of a typed value (dates in the Data Stage "AAAA-MM-DD HH:MM:SS" format)
+ * Used wherever values are shown or written as text (preview, CSV, SQLite)
+ */
+export const formatCellValue = (value: CellValue | undefined): string => {
+  if (value instanceof Date) return formatDateTime(value);
+  return value === undefined ? '' : String(value);
+};
+
+/**
+ * Coerce a raw text value to the column type
+ * Returns null when the value does not match the type (the caller keeps the raw text)
+ */
+export const coerceValue = (value: string, type: ColumnType): CellValue | null => {
+  // Empty cells stay empty regardless of type
+  if (value === '') return '';
+
+  switch (type) {
+    case 'integer':
+      return /^-?\d+$/.test(value) ? Number(value) : null;
+    case 'decimal':
+      return /^-?(\d+\.?\d*|\.\d+)$/.test(value) ? Number(value) : null;
+    case 'datetime':
+      return parseDateTime(value);
+    case 'rfc':
+      return value.toUpperCase();
+    case 'fraccion':
+      // Some exports write fracciones as 0101.21.01; keep only the digits (and leading zeros)
+      return /^[\d.]+$/.test(value) ? value.replace(/\./g, '') : value;
+    default:
+      return value;
+  }
+};
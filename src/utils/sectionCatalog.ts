@@ -0,0 +1,168 @@
+import bundledCatalog from './sectionCatalog.json';
+import { getSectionSchema } from './schema';
+
+/**
+ * Section catalog: the Data Stage tables the app knows about, their sheet names,
+ * level and sheet order, and whether they get a sheet at all
+ * The bundled catalog (sectionCatalog.json) can be overridden by a JSON file with the
+ * same shape; entries are matched by code and only the given fields are replaced.
+ */
+
+export type SectionLevel = 'pedimento' | 'partida';
+
+// Language of the section sheet names
+export type SheetLanguage = 'es' | 'en';
+
+export const SHEET_LANGUAGE_LABELS: Record<SheetLanguage, string> = {
+  es: 'Español',
+  en: 'English'
+};
+
+export interface SectionCatalogEntry {
+  code: string;
+  name: Record<SheetLanguage, string>;
+  level: SectionLevel;
+  // Sheets are written in ascending order; unknown sections go last
+  order: number;
+  // Excluded sections are still parsed (reports can use them) but get no sheet
+  include: boolean;
+}
+
+// Catalog entries by section code
+export type SectionCatalog = Record<string, SectionCatalogEntry>;
+
+interface CatalogEntryOverride {
+  code: string;
+  name?: Partial<Record<SheetLanguage, string>>;
+  level?: SectionLevel;
+  order?: number;
+  include?: boolean;
+}
+
+const LEVELS: SectionLevel[] = ['pedimento', 'partida'];
+
+/**
+ * Fill an override into a catalog entry (new codes get defaults after the last known section)
+ */
+function applyOverride(entry: CatalogEntryOverride, base: SectionCatalogEntry | undefined, lastOrder: number): SectionCatalogEntry {
+  const spanishName = entry.name?.es || base?.name.es || `Sección ${entry.code}`;
+  return {
+    code: entry.code,
+    name: {
+      es: spanishName,
+      en: entry.name?.en || base?.name.en || spanishName
+    },
+    level: entry.level || base?.level || 'pedimento',
+    order: entry.order ?? base?.order ?? lastOrder + 10,
+    include: entry.include ?? base?.include ?? true
+  };
+}
+
+/**
+ * Check the shape of a catalog file; returns the entries or throws with every problem found
+ * Accepts { "sections": [...] } or the bare array
+ */
+function validateCatalog(data: unknown): CatalogEntryOverride[] {
+  const sections = Array.isArray(data) ? data : (data as { sections?: unknown } | null)?.sections;
+  if (!Array.isArray(sections)) {
+    throw new Error('El catálogo debe ser una lista de secciones o un objeto con la propiedad "sections"');
+  }
+
+  const errors: string[] = [];
+  sections.forEach((entry, index) => {
+    const where = `Sección ${index + 1}`;
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push(`${where}: no es un objeto`);
+      return;
+    }
+    const { code, name, level, order, include } = entry as Record<string, unknown>;
+    if (typeof code !== 'string' || !code.trim()) errors.push(`${where}: falta el código ("code", un texto como "501")`);
+    if (name !== undefined && (typeof name !== 'object' || name === null ||
+      Object.values(name).some(value => typeof value !== 'string'))) {
+      errors.push(`${where}: "name" debe ser un objeto como { "es": "...", "en": "..." }`);
+    }
+    if (level !== undefined && !LEVELS.includes(level as SectionLevel)) {
+      errors.push(`${where}: "level" debe ser "pedimento" o "partida"`);
+    }
+    if (order !== undefined && typeof order !== 'number') errors.push(`${where}: "order" debe ser un número`);
+    if (include !== undefined && typeof include !== 'boolean') errors.push(`${where}: "include" debe ser true o false`);
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Catálogo de secciones no válido: ${errors.join('; ')}`);
+  }
+  return sections as CatalogEntryOverride[];
+}
+
+/**
+ * Merge catalog entries over a base catalog
+ */
+function mergeCatalog(entries: CatalogEntryOverride[], base: SectionCatalog): SectionCatalog {
+  const catalog: SectionCatalog = { ...base };
+  let lastOrder = Math.max(0, ...Object.values(base).map(entry => entry.order));
+  for (const entry of entries) {
+    const code = entry.code.trim();
+    catalog[code] = applyOverride({ ...entry, code }, base[code], lastOrder);
+    lastOrder = Math.max(lastOrder, catalog[code].order);
+  }
+  return catalog;
+}
+
+export const DEFAULT_SECTION_CATALOG: SectionCatalog = mergeCatalog(validateCatalog(bundledCatalog), {});
+
+/**
+ * Parse a catalog JSON file and merge it over the bundled catalog
+ * Throws an Error with a user facing message when the file isn't valid
+ */
+export const loadSectionCatalog = (json: string, base: SectionCatalog = DEFAULT_SECTION_CATALOG): SectionCatalog => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`El catálogo de secciones no es un JSON válido: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return mergeCatalog(validateCatalog(data), base);
+};
+
+/**
+ * Whether a section code is part of the catalog
+ */
+export const isKnownSection = (code: string, catalog: SectionCatalog = DEFAULT_SECTION_CATALOG): boolean => {
+  return code in catalog;
+};
+
+/**
+ * Level of a section (whether its rows get a No_Partida key): the catalog's, else the
+ * Data Stage layout's; unknown codes are pedimento level
+ */
+export const sectionLevel = (code: string, catalog: SectionCatalog = DEFAULT_SECTION_CATALOG): SectionLevel => {
+  return catalog[code]?.level ?? getSectionSchema(code)?.level ?? 'pedimento';
+};
+
+/**
+ * Sheet order of the given codes: included catalog sections by their order, then
+ * unknown codes in their original order; excluded sections are left out unless
+ * keepExcluded is set (the user picked them explicitly)
+ */
+export const orderSections = (
+  codes: string[],
+  catalog: SectionCatalog = DEFAULT_SECTION_CATALOG,
+  keepExcluded = false
+): string[] => {
+  const known = codes
+    .filter(code => catalog[code] && (keepExcluded || catalog[code].include))
+    .sort((a, b) => catalog[a].order - catalog[b].order || a.localeCompare(b));
+  return [...known, ...codes.filter(code => !(code in catalog))];
+};
+
+/**
+ * Sheet name of a section: its code followed by its catalog name
+ */
+export const sectionSheetName = (
+  code: string,
+  catalog: SectionCatalog = DEFAULT_SECTION_CATALOG,
+  language: SheetLanguage = 'es'
+): string => {
+  const name = catalog[code]?.name[language] || (language === 'en' ? `Section ${code}` : `Sección ${code}`);
+  return `${code} ${name}`;
+};
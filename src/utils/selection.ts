@@ -0,0 +1,81 @@
+/**
+ * Section and column selection chosen in the review step before the workbook is generated
+ * Maps each included section code to its columns in sheet order; sections that aren't
+ * listed get no sheet. Reports and consolidated sheets are not affected.
+ */
+export type SectionSelection = Record<string, string[]>;
+
+export interface SelectionPreset {
+  name: string;
+  selection: SectionSelection;
+}
+
+// Sections and their columns as detected by the parser
+export interface SelectableSection {
+  code: string;
+  columns: string[];
+}
+
+const PRESETS_STORAGE_KEY = 'datastage-excel:selection-presets';
+
+/**
+ * Selection including every section with all of its columns
+ */
+export const selectAll = (sections: SelectableSection[]): SectionSelection => {
+  return Object.fromEntries(sections.map(section => [section.code, [...section.columns]]));
+};
+
+/**
+ * Fit a saved selection to the sections of the current run
+ * Sections missing from the preset are excluded; columns the data doesn't have are dropped,
+ * and a section whose preset columns are all missing (different layout) keeps every column
+ */
+export const applyPreset = (selection: SectionSelection, sections: SelectableSection[]): SectionSelection => {
+  const result: SectionSelection = {};
+  for (const section of sections) {
+    const columns = selection[section.code];
+    if (!columns) continue;
+    const available = columns.filter(column => section.columns.includes(column));
+    result[section.code] = available.length > 0 || section.columns.length === 0 ? available : [...section.columns];
+  }
+  return result;
+};
+
+/**
+ * Columns of a section sheet: the selected ones in their chosen order, or the row's own columns
+ */
+export const selectedColumns = (code: string, rowColumns: string[], selection?: SectionSelection): string[] => {
+  const columns = selection?.[code];
+  return columns ? columns.filter(column => rowColumns.includes(column)) : rowColumns;
+};
+
+/**
+ * Saved presets, by name (an unreadable entry is treated as no presets)
+ */
+export const loadPresets = (): SelectionPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(preset => preset?.name && preset.selection) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Save a preset, replacing the one with the same name; returns the updated list
+ */
+export const savePreset = (name: string, selection: SectionSelection): SelectionPreset[] => {
+  const presets = [...loadPresets().filter(preset => preset.name !== name), { name, selection }]
+    .sort((a, b) => a.name.localeCompare(b.name));
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+/**
+ * Delete a preset by name; returns the updated list
+ */
+export const deletePreset = (name: string): SelectionPreset[] => {
+  const presets = loadPresets().filter(preset => preset.name !== name);
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
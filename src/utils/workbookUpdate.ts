@@ -0,0 +1,228 @@
+import * as XLSX from 'xlsx';
+import { AscRow, SOURCE_COLUMN } from './parser';
+import type { Diagnostic } from './diagnostics';
+import { CellValue, coerceValue, ColumnType, getSectionSchema } from './schema';
+import { fromExcelDate, INDEX_SHEET_NAME, isTableSheetName, VALIDATION_SHEET_NAME } from './excel';
+import { PARTIDAS_SHEET_NAME, PEDIMENTOS_SHEET_NAME } from './consolidate';
+import { HISTORY_SHEET_NAME } from './rectifications';
+import { RECONCILIATION_SHEET_NAME, SUMMARY_SHEET_NAME } from './contributions';
+import { BALANCE_SHEET_NAME, MOVEMENTS_SHEET_NAME } from './immex';
+import { QUALITY_SHEET_NAME } from './qualityRules';
+import { DEFAULT_SECTION_CATALOG, SectionCatalog, sectionSheetName, SheetLanguage } from './sectionCatalog';
+import type { ZipInput } from './zipHandler';
+
+/**
+ * What to do with the pedimentos of a new drop that are already in the workbook being updated
+ * - skip: keep the workbook's rows and ignore the new ones
+ * - replace: drop the workbook's rows of the pedimento and add the new ones
+ */
+export type UpdatePolicy = 'skip' | 'replace';
+
+export const UPDATE_POLICY_LABELS: Record<UpdatePolicy, string> = {
+  skip: 'Conservar los del libro existente',
+  replace: 'Reemplazar con los de la nueva entrega'
+};
+
+export const DEFAULT_UPDATE_POLICY: UpdatePolicy = 'skip';
+
+/**
+ * A sheet of the existing workbook copied as it is into the updated one
+ */
+export interface ExistingSheet {
+  name: string;
+  sheet: XLSX.WorkSheet;
+}
+
+export interface ExistingWorkbook {
+  // Rows of the section sheets (continuation sheets included), typed like parsed rows
+  sectionMap: Map<string, AscRow[]>;
+  // Sheets added by the user (notes, pivots...), kept in the updated workbook
+  extraSheets: ExistingSheet[];
+  // Generated sheets (index, validation, reports) that are rebuilt from the merged rows
+  derivedSheets: string[];
+}
+
+export interface WorkbookMergeResult {
+  sectionMap: Map<string, AscRow[]>;
+  diagnostics: Diagnostic[];
+}
+
+// Sheets the converter derives from the section rows
+const DERIVED_SHEET_NAMES = [
+  INDEX_SHEET_NAME, VALIDATION_SHEET_NAME, PEDIMENTOS_SHEET_NAME, PARTIDAS_SHEET_NAME,
+  HISTORY_SHEET_NAME, SUMMARY_SHEET_NAME, RECONCILIATION_SHEET_NAME, MOVEMENTS_SHEET_NAME, BALANCE_SHEET_NAME,
+  QUALITY_SHEET_NAME
+];
+
+const SHEET_LANGUAGES: SheetLanguage[] = ['es', 'en'];
+
+const PEDIMENTO_JOIN = ['Patente', 'Pedimento', 'SeccionAduanera'];
+
+/**
+ * Whether an input is an existing workbook to update (rather than a Data Stage drop)
+ */
+export const isWorkbookInput = (name: string): boolean => name.toLowerCase().endsWith('.xlsx');
+
+/**
+ * Section code of a section sheet ("551 Partidas", "551 Partidas (2)", "551 Items"),
+ * or undefined for any other sheet
+ */
+function sheetSection(sheetName: string, catalog: SectionCatalog): string | undefined {
+  const code = sheetName.split(' ')[0];
+  const isSection = SHEET_LANGUAGES.some(language =>
+    isTableSheetName(sheetName, sectionSheetName(code, catalog, language))
+  );
+  return isSection ? code : undefined;
+}
+
+/**
+ * Typed value of a cell read back from a sheet: dates come back as Excel serial
+ * numbers and identifiers retyped by the user as numbers go back to text, with the
+ * leading zeros of their displayed text (a "0000" format) or of the fracción's 8 or 10 digits
+ */
+function readCell(cell: XLSX.CellObject | undefined, type: ColumnType): CellValue {
+  const value = cell?.v;
+  if (value === undefined || value === null || value === '') return '';
+  if (typeof value === 'number') {
+    if (type === 'datetime') return fromExcelDate(value);
+    if (type === 'integer' || type === 'decimal') return value;
+    const digits = cell?.w && /^\d+$/.test(cell.w) ? cell.w : String(value);
+    return type === 'fraccion' && /^\d+$/.test(digits) ? digits.padStart(digits.length <= 8 ? 8 : 10, '0') : digits;
+  }
+  const text = String(value);
+  return coerceValue(text, type) ?? text;
+}
+
+/**
+ * Rows of a section sheet as column → value records (blank rows are left out)
+ * Cells are read directly so the displayed text of numbers is available
+ */
+function readSectionRows(sheet: XLSX.WorkSheet, sectionCode: string): AscRow[] {
+  if (!sheet['!ref']) return [];
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const columnTypes = new Map(getSectionSchema(sectionCode)?.columns.map(column => [column.name, column.type]));
+  const cellAt = (r: number, c: number): XLSX.CellObject | undefined => sheet[XLSX.utils.encode_cell({ r, c })];
+  const headers: string[] = [];
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    headers.push(String(cellAt(range.s.r, c)?.v ?? ''));
+  }
+
+  const rows: AscRow[] = [];
+  for (let r = range.s.r + 1; r <= range.e.r; r++) {
+    const row: AscRow = {};
+    let blank = true;
+    headers.forEach((header, index) => {
+      if (!header) return;
+      const value = readCell(cellAt(r, range.s.c + index), columnTypes.get(header) || 'text');
+      if (value !== '') blank = false;
+      row[header] = value;
+    });
+    if (!blank) rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Read a workbook generated by a previous run back into the sectionMap shape
+ */
+export const readExistingWorkbook = async (
+  input: ZipInput,
+  catalog: SectionCatalog = DEFAULT_SECTION_CATALOG
+): Promise<ExistingWorkbook> => {
+  const bytes = new Uint8Array(input instanceof Blob ? await input.arrayBuffer() : input);
+  const workbook = XLSX.read(bytes, { type: 'array' });
+  const result: ExistingWorkbook = { sectionMap: new Map(), extraSheets: [], derivedSheets: [] };
+
+  for (const name of workbook.SheetNames) {
+    const sheet = workbook.Sheets[name];
+    const sectionCode = sheetSection(name, catalog);
+    if (sectionCode) {
+      // Continuation sheets follow their first sheet, so their rows are appended in order
+      const rows = result.sectionMap.get(sectionCode) || [];
+      result.sectionMap.set(sectionCode, rows.concat(readSectionRows(sheet, sectionCode)));
+    } else if (DERIVED_SHEET_NAMES.some(derived => isTableSheetName(name, derived))) {
+      result.derivedSheets.push(name);
+    } else {
+      result.extraSheets.push({ name, sheet });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Pedimento of a row from its Patente, Pedimento and SeccionAduanera, when all are present
+ * (not No_Pedimento, whose format may differ between the workbook and the new drop)
+ */
+function rowPedimento(row: AscRow): string | undefined {
+  const parts = PEDIMENTO_JOIN.map(column => String(row[column] ?? '').trim());
+  return parts.every(Boolean) ? parts.join('|') : undefined;
+}
+
+/**
+ * Text of a whole row, to recognize rows without a complete key that are already present
+ */
+function rowText(row: AscRow): string {
+  return Object.entries(row)
+    .filter(([column]) => column !== SOURCE_COLUMN)
+    .map(([column, value]) => `${column}=${value instanceof Date ? value.getTime() : String(value)}`)
+    .join('|');
+}
+
+/**
+ * Append the rows of a new drop to the sections of an existing workbook
+ * Pedimentos already in a section are kept or replaced according to the policy; rows
+ * without a complete key are added unless the same row is already there
+ */
+export const mergeIntoWorkbook = (
+  existing: Map<string, AscRow[]>,
+  incoming: Map<string, AscRow[]>,
+  policy: UpdatePolicy = DEFAULT_UPDATE_POLICY
+): WorkbookMergeResult => {
+  const result: WorkbookMergeResult = { sectionMap: new Map(), diagnostics: [] };
+  const sectionCodes = new Set([...existing.keys(), ...incoming.keys()]);
+
+  for (const sectionCode of sectionCodes) {
+    const current = existing.get(sectionCode) || [];
+    const rows = incoming.get(sectionCode) || [];
+    if (current.length === 0 || rows.length === 0) {
+      result.sectionMap.set(sectionCode, current.length > 0 ? current : rows);
+      continue;
+    }
+
+    const currentPedimentos = new Set(current.map(rowPedimento));
+    const currentRows = new Set(current.filter(row => !rowPedimento(row)).map(rowText));
+    const incomingPedimentos = new Set(rows.map(rowPedimento));
+    const present = new Set<string>();
+
+    const added = rows.filter(row => {
+      const pedimento = rowPedimento(row);
+      if (!pedimento) return !currentRows.has(rowText(row));
+      if (!currentPedimentos.has(pedimento)) return true;
+      present.add(pedimento);
+      return policy === 'replace';
+    });
+    const kept = policy === 'replace'
+      ? current.filter(row => !present.has(rowPedimento(row) || ''))
+      : current;
+    const merged = [...kept, ...added];
+
+    // Sheet headers come from the first row, so it has to list the columns of both deliveries
+    const columns = new Set([...Object.keys(merged[0]), ...Object.keys(rows[0])]);
+    if (columns.size > Object.keys(merged[0]).length) {
+      merged[0] = Object.fromEntries(Array.from(columns, column => [column, merged[0][column] ?? '']));
+    }
+    result.sectionMap.set(sectionCode, merged);
+
+    const newPedimentos = Array.from(incomingPedimentos).filter(pedimento => pedimento && !present.has(pedimento)).length;
+    result.diagnostics.push({
+      severity: 'info', section: sectionCode,
+      message: `Se agregaron ${added.length} filas al libro existente (${newPedimentos} pedimentos nuevos)` +
+        (present.size > 0
+          ? `; ${present.size} pedimentos ya presentes ${policy === 'replace' ? 'se reemplazaron' : 'se conservaron sin cambios'}`
+          : '')
+    });
+  }
+
+  return result;
+};
@@ -0,0 +1,286 @@
+import JSZip from 'jszip';
+import * as XLSX from 'xlsx';
+
+/**
+ * Formatting the community SheetJS build can't write: styled header rows, frozen
+ * panes and Excel Tables (ListObjects). Applied to the written .xlsx package.
+ *
+ * Every sheet with a header autofilter (applyWorksheetStyling) becomes a named Excel
+ * Table over its data, with a bold colored header and the top row and first column frozen.
+ * Sheets are patched at their head (views, header row) and tail (table part) only, so
+ * the rows of large sheets are copied as bytes and never decoded.
+ * Tables can also ask for the rows that need attention (e.g. reconciliation mismatches)
+ * to be filled, through a conditional format on the whole table.
+ */
+
+const TABLE_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.table+xml';
+const TABLE_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/table';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Built-in table style: blue header and banded rows
+const TABLE_STYLE = 'TableStyleMedium2';
+
+// Header cells: bold white text on dark blue
+const HEADER_FONT = '<font><b/><sz val="12"/><color rgb="FFFFFFFF"/><name val="Calibri"/><family val="2"/><scheme val="minor"/></font>';
+const HEADER_FILL = '<fill><patternFill patternType="solid"><fgColor rgb="FF1F4E78"/><bgColor indexed="64"/></patternFill></fill>';
+
+// Top row and first column (No_Pedimento in section sheets) stay visible while scrolling
+// Highlighted rows: Excel's "light red fill with dark red text"
+const HIGHLIGHT_FORMAT = '<dxf><font><color rgb="FF9C0006"/></font><fill><patternFill><bgColor rgb="FFFFC7CE"/></patternFill></fill></dxf>';
+
+// Elements that follow <conditionalFormatting> in a worksheet
+const AFTER_CONDITIONAL_FORMATTING = /<(dataValidations|hyperlinks|printOptions|pageMargins|pageSetup|headerFooter|rowBreaks|colBreaks|ignoredErrors|drawing|legacyDrawing|tableParts|extLst)[ >/]|<\/worksheet>/;
+
+/**
+ * Rows to fill so they stand out: those whose value in a column isn't the expected one
+ */
+export interface RowHighlight {
+  column: string;
+  // Rows with this value are left as they are
+  expected: string;
+}
+
+// Worksheet key carrying a table's RowHighlight from the workbook to formatWorkbook
+export const HIGHLIGHT_KEY = '!highlight';
+
+const FROZEN_VIEW = '<pane xSplit="1" ySplit="1" topLeftCell="B2" activePane="bottomRight" state="frozen"/>' +
+  '<selection pane="topRight"/><selection pane="bottomLeft"/><selection pane="bottomRight" activeCell="B2" sqref="B2"/>';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function indexOfBytes(bytes: Uint8Array, text: string, from = 0): number {
+  const pattern = encoder.encode(text);
+  for (let index = bytes.indexOf(pattern[0], from); index !== -1; index = bytes.indexOf(pattern[0], index + 1)) {
+    if (pattern.every((byte, offset) => bytes[index + offset] === byte)) return index;
+  }
+  return -1;
+}
+
+function lastIndexOfBytes(bytes: Uint8Array, text: string): number {
+  const pattern = encoder.encode(text);
+  // A negative start would count from the end again, so the search stops at index 0
+  for (let index = bytes.lastIndexOf(pattern[0]); index !== -1; index = index > 0 ? bytes.lastIndexOf(pattern[0], index - 1) : -1) {
+    if (pattern.every((byte, offset) => bytes[index + offset] === byte)) return index;
+  }
+  return -1;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&#(x?)([0-9a-f]+);/gi, (_, hex: string, code: string) => String.fromCodePoint(parseInt(code, hex ? 16 : 10)))
+    .replace(/&amp;/g, '&');
+}
+
+async function readText(zip: JSZip, path: string): Promise<string> {
+  const file = zip.file(path);
+  if (!file) throw new Error(`Missing ${path} in the workbook`);
+  return file.async('string');
+}
+
+/**
+ * Append an element to a counted collection of styles.xml ("<fonts count="1">")
+ * Returns the updated XML and the index of the new element
+ */
+function appendStyle(styles: string, collection: string, element: string): [string, number] {
+  const match = new RegExp(`<${collection} count="(\\d+)">`).exec(styles);
+  if (!match) throw new Error(`Missing <${collection}> in styles.xml`);
+  const index = Number(match[1]);
+  const updated = styles
+    .replace(match[0], `<${collection} count="${index + 1}">`)
+    .replace(`</${collection}>`, `${element}</${collection}>`);
+  return [updated, index];
+}
+
+/**
+ * Add the header cell format to styles.xml, returning the updated XML and its index
+ */
+function addHeaderStyle(styles: string): [string, number] {
+  const [withFont, fontId] = appendStyle(styles, 'fonts', HEADER_FONT);
+  const [withFill, fillId] = appendStyle(withFont, 'fills', HEADER_FILL);
+  return appendStyle(
+    withFill, 'cellXfs',
+    `<xf numFmtId="0" fontId="${fontId}" fillId="${fillId}" borderId="0" xfId="0" applyFont="1" applyFill="1"/>`
+  );
+}
+
+/**
+ * Add the highlighted row format to styles.xml, returning the updated XML and its index
+ */
+function addHighlightFormat(styles: string): [string, number] {
+  return appendStyle(styles.replace('<dxfs count="0"/>', '<dxfs count="0"></dxfs>'), 'dxfs', HIGHLIGHT_FORMAT);
+}
+
+/**
+ * Conditional format filling the rows of a table whose value in the column isn't the expected one
+ */
+function highlightXml(highlight: RowHighlight, columnIndex: number, ref: string, formatId: number): string {
+  const formula = `$${XLSX.utils.encode_col(columnIndex)}2<>"${highlight.expected.replace(/"/g, '""')}"`;
+  return `<conditionalFormatting sqref="${ref}"><cfRule type="expression" dxfId="${formatId}" priority="1">` +
+    `<formula>${escapeXml(formula)}</formula></cfRule></conditionalFormatting>`;
+}
+
+/**
+ * Column names from the first row of a sheet, or null when it can't hold an Excel Table
+ * (a gap, a non-text header, or names that repeat ignoring case)
+ */
+function headerColumns(head: string): string[] | null {
+  const row = /<row r="1"[^>]*>(.*?)<\/row>/.exec(head);
+  if (!row) return null;
+
+  const columns: string[] = [];
+  for (const cell of row[1].matchAll(/<c r="([A-Z]+)1"([^>]*)>(.*?)<\/c>/g)) {
+    const value = /<v>(.*?)<\/v>/.exec(cell[3]);
+    if (XLSX.utils.decode_col(cell[1]) !== columns.length || !/t="str"/.test(cell[2]) || !value) return null;
+    columns.push(unescapeXml(value[1]));
+  }
+
+  const names = new Set(columns.map(column => column.toLowerCase()));
+  return columns.length > 0 && names.size === columns.length && !names.has('') ? columns : null;
+}
+
+/**
+ * Unique Excel Table name for a sheet ("501 Datos generales" → "Tabla_501_Datos_generales")
+ */
+function tableName(sheetName: string, used: Set<string>): string {
+  const base = 'Tabla_' + sheetName.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  let name = base;
+  for (let copy = 2; used.has(name.toLowerCase()); copy++) {
+    name = `${base}_${copy}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+function tableXml(id: number, name: string, ref: string, columns: string[]): string {
+  const tableColumns = columns.map((column, index) => `<tableColumn id="${index + 1}" name="${escapeXml(column)}"/>`).join('');
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    `<table xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" id="${id}" name="${name}" displayName="${name}" ref="${ref}" totalsRowShown="0">` +
+    `<autoFilter ref="${ref}"/><tableColumns count="${columns.length}">${tableColumns}</tableColumns>` +
+    `<tableStyleInfo name="${TABLE_STYLE}" showFirstColumn="0" showLastColumn="0" showRowStripes="1" showColumnStripes="0"/></table>`;
+}
+
+/**
+ * Add a table relationship to a sheet's .rels part (created when missing), returning its id
+ */
+async function addTableRelationship(zip: JSZip, sheetPath: string, tableId: number): Promise<string> {
+  const separator = sheetPath.lastIndexOf('/');
+  const relsPath = `${sheetPath.slice(0, separator)}/_rels/${sheetPath.slice(separator + 1)}.rels`;
+  const rels = zip.file(relsPath)
+    ? await readText(zip, relsPath)
+    : `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="${RELATIONSHIPS_NS}"></Relationships>`;
+
+  const usedIds = Array.from(rels.matchAll(/Id="rId(\d+)"/g), match => Number(match[1]));
+  const id = `rId${Math.max(0, ...usedIds) + 1}`;
+  zip.file(relsPath, rels.replace(
+    '</Relationships>',
+    `<Relationship Id="${id}" Type="${TABLE_RELATIONSHIP}" Target="../tables/table${tableId}.xml"/></Relationships>`
+  ));
+  return id;
+}
+
+/**
+ * Style the header rows, freeze the panes and register Excel Tables in a written workbook
+ */
+export const formatWorkbook = async (
+  bytes: Uint8Array,
+  highlights: Map<string, RowHighlight> = new Map()
+): Promise<Uint8Array> => {
+  const zip = await JSZip.loadAsync(bytes);
+  let workbookXml = await readText(zip, 'xl/workbook.xml');
+  const workbookRels = await readText(zip, 'xl/_rels/workbook.xml.rels');
+  let contentTypes = await readText(zip, '[Content_Types].xml');
+  let styles = await readText(zip, 'xl/styles.xml');
+
+  const targets = new Map(Array.from(
+    workbookRels.matchAll(/<Relationship Id="([^"]+)"[^>]*Target="([^"]+)"/g),
+    match => [match[1], match[2]]
+  ));
+  const sheets = Array.from(workbookXml.matchAll(/<sheet name="([^"]*)"[^>]*r:id="([^"]+)"/g), match => ({
+    name: unescapeXml(match[1]),
+    target: targets.get(match[2])
+  }));
+
+  let headerStyle: number | undefined;
+  let highlightFormat: number | undefined;
+  let tableCount = 0;
+  const usedNames = new Set<string>();
+
+  for (const [sheetIndex, { name: sheetName, target }] of sheets.entries()) {
+    if (!target) continue;
+    const sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    const sheetBytes = await zip.file(sheetPath)?.async('uint8array');
+    if (!sheetBytes) continue;
+
+    // Only sheets with a header autofilter become tables
+    const tailStart = lastIndexOfBytes(sheetBytes, '</sheetData>');
+    const headEnd = indexOfBytes(sheetBytes, '</row>') + '</row>'.length;
+    if (tailStart === -1 || headEnd < '</row>'.length || headEnd > tailStart) continue;
+    let tail = decoder.decode(sheetBytes.subarray(tailStart));
+    let head = decoder.decode(sheetBytes.subarray(0, headEnd));
+    const autoFilter = /<autoFilter [^>]*\/>/.exec(tail);
+    const dimension = /<dimension ref="A1:([A-Z]+)(\d+)"\/>/.exec(head);
+    const columns = headerColumns(head);
+    if (!autoFilter || !dimension || !columns || XLSX.utils.decode_col(dimension[1]) !== columns.length - 1) continue;
+
+    if (headerStyle === undefined) {
+      [styles, headerStyle] = addHeaderStyle(styles);
+    }
+    const style = headerStyle;
+
+    // The table carries its own autofilter, which replaces the sheet's
+    const tableId = ++tableCount;
+    const name = tableName(sheetName, usedNames);
+    zip.file(`xl/tables/table${tableId}.xml`, tableXml(tableId, name, `A1:${dimension[1]}${dimension[2]}`, columns));
+    contentTypes = contentTypes.replace('</Types>', `<Override PartName="/xl/tables/table${tableId}.xml" ContentType="${TABLE_CONTENT_TYPE}"/></Types>`);
+    const tableRelId = await addTableRelationship(zip, sheetPath, tableId);
+    tail = tail
+      .replace(autoFilter[0], '')
+      .replace('</worksheet>', `<tableParts count="1"><tablePart r:id="${tableRelId}"/></tableParts></worksheet>`);
+
+    const highlight = highlights.get(sheetName);
+    const highlightColumn = highlight ? columns.indexOf(highlight.column) : -1;
+    if (highlight && highlightColumn !== -1 && Number(dimension[2]) > 1) {
+      if (highlightFormat === undefined) {
+        [styles, highlightFormat] = addHighlightFormat(styles);
+      }
+      const conditionalFormat = highlightXml(highlight, highlightColumn, `A2:${dimension[1]}${dimension[2]}`, highlightFormat);
+      const insertAt = AFTER_CONDITIONAL_FORMATTING.exec(tail)?.index ?? tail.length;
+      tail = tail.slice(0, insertAt) + conditionalFormat + tail.slice(insertAt);
+    }
+
+    workbookXml = workbookXml.replace(
+      new RegExp(`<definedName name="_xlnm._FilterDatabase" localSheetId="${sheetIndex}"[^>]*>[^<]*</definedName>`), ''
+    );
+
+    head = head
+      .replace(/<sheetView ([^>]*?)\s*\/>/, `<sheetView $1>${FROZEN_VIEW}</sheetView>`)
+      .replace(/(<row r="1"[^>]*>)(.*?)(<\/row>)/, (_, open: string, cells: string, close: string) =>
+        open + cells.replace(/<c r="([A-Z]+1)"(?: s="\d+")?/g, `<c r="$1" s="${style}"`) + close
+      );
+
+    zip.file(sheetPath, concatBytes([encoder.encode(head), sheetBytes.subarray(headEnd, tailStart), encoder.encode(tail)]));
+  }
+
+  if (tableCount === 0) return bytes;
+
+  zip.file('xl/workbook.xml', workbookXml.replace('<definedNames></definedNames>', ''));
+  zip.file('[Content_Types].xml', contentTypes);
+  zip.file('xl/styles.xml', styles);
+  return zip.generateAsync({ type: 'uint8array' });
+};
@@ -1,257 +1,449 @@
 import JSZip from 'jszip';
+import type { AscFileSink } from './parser';
+import type { Diagnostic } from './diagnostics';
+import { createStreamDecoder, decodeBytes, encodingDiagnostics, EncodingOption } from './encoding';
+import { archiveKindFromBytes, archiveKindFromName, ArchiveKind, gunzip, gunzippedName, readTar } from './archive';
 
-interface ZipHandlerOptions {
+/**
+ * Anything JSZip can load: a browser File/Blob or raw bytes read in Node
+ */
+export type ZipInput = Blob | ArrayBuffer | Uint8Array;
+
+/**
+ * Safeguards against runaway extraction (deeply nested archives, zip bombs)
+ */
+export interface ExtractionLimits {
+  // Archives nested deeper than this are skipped; the delivery itself is level 0
+  // and every wrapper (ZIP, TAR or gzip) adds a level
+  maxDepth: number;
+  // Total decompressed bytes read from the delivery and all its nested archives
+  maxTotalBytes: number;
+  // Total files in the delivery and all its nested archives
+  maxEntries: number;
+}
+
+export const DEFAULT_EXTRACTION_LIMITS: ExtractionLimits = {
+  maxDepth: 10,
+  // Inputs are at most 500 MB and the rows parsed from 2 GB of text already take far more
+  // memory than a browser tab has (see the benchmark), so a delivery expanding past it is
+  // treated as a zip bomb
+  maxTotalBytes: 2 * 1024 ** 3,
+  maxEntries: 100_000
+};
+
+export interface ZipHandlerOptions {
   onProgress: (percent: number) => void;
   onError: (error: string) => void;
   onInfo?: (info: string) => void;
+  // Called when a limit stops the extraction (maxTotalBytes, maxEntries) or skips a nested
+  // archive (maxDepth); path is the entry being read, the archive listed or the archive skipped
+  onLimit?: (limit: keyof ExtractionLimits, path: string) => void;
+  // Called with the diagnostics of each file read by extractAscFromZip (the encoding it was
+  // decoded with); the streaming paths report them through the sink instead
+  onDiagnostic?: (diagnostic: Diagnostic) => void;
+  // Checked between entries; an abort is rethrown instead of reported through onError
+  signal?: AbortSignal;
+  // Character encoding of the ASC files (default: detected per file)
+  encoding?: EncodingOption;
+  // Overrides of DEFAULT_EXTRACTION_LIMITS
+  limits?: Partial<ExtractionLimits>;
 }
 
-interface ExtractedFolder {
-  folderName: string;
-  files: Map<string, string>;
+export interface StreamZipOptions extends ZipHandlerOptions {
+  // Called once per ASC entry with its "folder/path/file.asc" path; the decoded text is written to the sink
+  openFile: (path: string) => AscFileSink;
 }
 
 /**
- * Extract .asc files from a ZIP file including nested ZIPs
+ * A file of an archive (or a loose file), decompressed on demand
  */
-export const extractAscFromZip = async (
-  zipFile: File, 
-  options: ZipHandlerOptions
-): Promise<Map<string, string>> => {
-  const { onProgress, onError, onInfo } = options;
-  const fileContents = new Map<string, string>();
-  
-  const logInfo = (message: string) => {
-    console.log(message);
-    if (onInfo) onInfo(message);
+interface ArchiveEntry {
+  // Pass the decompressed data on chunk by chunk; returning false from onChunk stops early
+  read: (onChunk: (chunk: Uint8Array) => boolean | void) => Promise<void>;
+}
+
+// internalStream is part of JSZip's public API but missing from its typings
+type StreamableEntry = JSZip.JSZipObject & {
+  internalStream: (type: 'uint8array') => JSZip.JSZipStreamHelper<Uint8Array>;
+};
+
+// Receives each ASC entry found by walkAscEntries, in archive order
+type EntryVisitor = (path: string, entry: ArchiveEntry) => Promise<void>;
+
+// Size of the slices a file held as bytes is passed on in
+const TEXT_CHUNK_SIZE = 1024 * 1024;
+
+function zipEntry(file: JSZip.JSZipObject): ArchiveEntry {
+  return {
+    read: (onChunk) => new Promise((resolve, reject) => {
+      const stream = (file as StreamableEntry).internalStream('uint8array');
+      stream
+        .on('data', (chunk) => {
+          try {
+            if (onChunk(chunk) === false) {
+              stream.pause();
+              resolve();
+            }
+          } catch (error) {
+            stream.pause();
+            reject(error);
+          }
+        })
+        .on('error', reject)
+        .on('end', () => resolve())
+        .resume();
+    })
+  };
+}
+
+function bytesEntry(bytes: Uint8Array): ArchiveEntry {
+  return {
+    read: async (onChunk) => {
+      for (let offset = 0; offset < bytes.length; offset += TEXT_CHUNK_SIZE) {
+        if (onChunk(bytes.subarray(offset, offset + TEXT_CHUNK_SIZE)) === false) return;
+      }
+    }
+  };
+}
+
+function blobEntry(blob: Blob): ArchiveEntry {
+  return {
+    read: async (onChunk) => {
+      const reader = blob.stream().getReader();
+      try {
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+          if (onChunk(chunk.value) === false) break;
+        }
+      } finally {
+        await reader.cancel().catch(() => {});
+      }
+    }
   };
-  
+}
+
+function gzipEntry(compressed: Uint8Array): ArchiveEntry {
+  return { read: (onChunk) => gunzip(compressed, onChunk) };
+}
+
+async function readAll(entry: ArchiveEntry): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  await entry.read((chunk) => {
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+  if (chunks.length === 1) return chunks[0];
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+async function inputBytes(input: ZipInput): Promise<Uint8Array> {
+  if (input instanceof Uint8Array) return input;
+  return new Uint8Array(input instanceof Blob ? await input.arrayBuffer() : input);
+}
+
+/**
+ * Decode an entry chunk by chunk into a sink
+ * Only one decompressed chunk (plus the sink's partial line) is held in memory at a time
+ */
+async function streamEntry(entry: ArchiveEntry, sink: AscFileSink, encoding?: EncodingOption): Promise<void> {
+  const decoder = createStreamDecoder(encoding);
   try {
-    // Load the zip file
-    const zip = new JSZip();
-    
-    // Use loadAsync with progress callback
-    const zipContent = await zip.loadAsync(zipFile, {
-      // Update progress during loading (0-30%)
-      checkCRC32: true
+    await entry.read((chunk) => {
+      sink.write(decoder.decode(chunk));
     });
-    
-    // Set progress to 30% after loading the zip
-    onProgress(30);
-    
-    // Log all files found in the ZIP for debugging
-    const allFiles = Object.keys(zipContent.files);
-    logInfo(`Found ${allFiles.length} total items in ZIP file`);
-    
-    // Get all files and directories in the ZIP
-    const directories = allFiles.filter(path => zipContent.files[path].dir);
-    const files = allFiles.filter(path => !zipContent.files[path].dir);
-    
-    logInfo(`- ${directories.length} directories`);
-    logInfo(`- ${files.length} files`);
-    
-    if (directories.length > 0) {
-      logInfo(`Directories found: ${directories.slice(0, 3).join(', ')}${directories.length > 3 ? '...' : ''}`);
+  } catch (error) {
+    // The rows of a file cut off mid-stream are dropped rather than kept incomplete
+    sink.abort(error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+  sink.write(decoder.end());
+  sink.end(decoder.report());
+}
+
+/**
+ * First line of a file read as bytes, cut to maxLength characters
+ */
+function firstLine(bytes: Uint8Array, maxLength: number): string {
+  // A UTF-8 character takes up to 4 bytes
+  return new TextDecoder('utf-8').decode(bytes.subarray(0, maxLength * 4)).split('\n')[0].slice(0, maxLength);
+}
+
+function fileName(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+/**
+ * Folder of the files of a nested archive: its full path inside the parent archive, so
+ * "2024/01.zip" and "2025/01.zip" don't collapse into one "01" folder
+ */
+function nestedFolder(parentFolder: string, archivePath: string): string {
+  const name = archivePath.replace(/\.(zip|tar)$/i, '');
+  return parentFolder === 'main' ? name : `${parentFolder}/${name}`;
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${bytes} bytes`;
+};
+
+/**
+ * Find the .asc files of an archive (including nested ZIP, TAR and gzip archives at any
+ * depth) and visit them one at a time
+ * Returns the number of visited files
+ */
+async function walkAscEntries(
+  zipFile: ZipInput,
+  options: ZipHandlerOptions,
+  visit: EntryVisitor
+): Promise<number> {
+  const { onProgress, onError, onInfo, onLimit, signal } = options;
+  const limits = { ...DEFAULT_EXTRACTION_LIMITS, ...options.limits };
+  let visitedFiles = 0;
+  let nestedArchives = 0;
+  let totalBytes = 0;
+  let totalEntries = 0;
+  // Set when a limit is exceeded: it stops the whole extraction instead of skipping one file
+  let limitError: Error | null = null;
+  // Folders (archives) that contributed at least one file
+  const visitedFolders = new Set<string>();
+  // Extensions of every file seen, reported when no ASC file is found
+  const extensions = new Set<string>();
+  // Files that might hold ASC data under another extension; tried when no .asc file is found
+  const textCandidates: Array<{ path: string; target: string; entry: ArchiveEntry }> = [];
+
+  // Send info to the caller when it listens, otherwise fall back to the console
+  const logInfo = (message: string) => {
+    if (onInfo) onInfo(message);
+    else console.log(message);
+  };
+
+  const stop = (limit: keyof ExtractionLimits, path: string, message: string): never => {
+    onLimit?.(limit, path);
+    limitError = new Error(message);
+    throw limitError;
+  };
+
+  // Path of an entry as shown to the user ("01.zip/3420_501.asc")
+  const entryPath = (folder: string, path: string) => (folder === 'main' ? path : `${folder}/${path}`);
+
+  // Count the decompressed bytes of an entry against maxTotalBytes as they are read
+  const metered = (entry: ArchiveEntry, path: string): ArchiveEntry => ({
+    read: (onChunk) => entry.read((chunk) => {
+      totalBytes += chunk.length;
+      if (totalBytes > limits.maxTotalBytes) {
+        stop('maxTotalBytes', path, `Extraction stopped while reading ${path}: more than ${formatBytes(limits.maxTotalBytes)} of uncompressed data (possible zip bomb)`);
+      }
+      return onChunk(chunk);
+    })
+  });
+
+  // Errors of a single file are logged and skipped; aborts and exceeded limits stop everything
+  const rethrowFatal = (error: unknown) => {
+    if (signal?.aborted || limitError) throw error;
+  };
+
+  const visitFile = async (target: string, entry: ArchiveEntry) => {
+    signal?.throwIfAborted();
+    await visit(target, entry);
+    visitedFiles++;
+    visitedFolders.add(target.slice(0, target.lastIndexOf('/')));
+  };
+
+  const walkArchive = async (kind: Exclude<ArchiveKind, 'gzip'>, bytes: Uint8Array, folder: string, depth: number) => {
+    let files: Array<{ path: string; entry: ArchiveEntry }>;
+    if (kind === 'tar') {
+      files = readTar(bytes).map(({ path, data }) => ({ path: path.replace(/^\.?\//, ''), entry: bytesEntry(data) }));
+    } else {
+      const zipContent = await new JSZip().loadAsync(bytes, { checkCRC32: true });
+      files = Object.values(zipContent.files)
+        .filter(file => !file.dir)
+        .map(file => ({ path: file.name, entry: zipEntry(file) }));
+    }
+
+    totalEntries += files.length;
+    if (totalEntries > limits.maxEntries) {
+      stop('maxEntries', folder === 'main' ? '' : folder, `Extraction stopped: more than ${limits.maxEntries} files in the archive and its nested archives`);
     }
-    
-    // Look for .asc files in any directory
-    let ascFiles = files.filter(filename => filename.toLowerCase().endsWith('.asc'));
-    
-    logInfo(`Found ${ascFiles.length} .asc files in the ZIP`);
-    if (ascFiles.length > 0) {
-      logInfo(`ASC files: ${ascFiles.slice(0, 5).join(', ')}${ascFiles.length > 5 ? '...' : ''}`);
+
+    const label = folder === 'main' ? 'the archive' : folder;
+    const ascCount = files.filter(file => file.path.toLowerCase().endsWith('.asc')).length;
+    logInfo(`Found ${files.length} files in ${label} (${kind.toUpperCase()}), ${ascCount} of them .asc files`);
+
+    for (const [index, file] of files.entries()) {
+      await walkFile(file.path, metered(file.entry, entryPath(folder, file.path)), folder, depth);
+      // The delivery's own entries drive the progress (30-90%)
+      if (folder === 'main') onProgress(30 + ((index + 1) / files.length) * 60);
     }
-    
-    // Look for nested ZIP files
-    const nestedZipFiles = files.filter(filename => filename.toLowerCase().endsWith('.zip'));
-    logInfo(`Found ${nestedZipFiles.length} nested ZIP files`);
-    
-    // Collect all extracted folders
-    const extractedFolders: ExtractedFolder[] = [];
-    
-    // Process ASC files from the main ZIP
-    if (ascFiles.length > 0) {
-      const mainFolderFiles = new Map<string, string>();
-      let processedCount = 0;
-      
-      // Process each ASC file in the main ZIP
-      const mainZipPromises = ascFiles.map(async (filename) => {
+  };
+
+  const walkFile = async (path: string, entry: ArchiveEntry, folder: string, depth: number): Promise<void> => {
+    signal?.throwIfAborted();
+    const kind = archiveKindFromName(path);
+
+    if (!kind) {
+      const lowerPath = path.toLowerCase();
+      const extension = fileName(lowerPath).includes('.') ? `.${lowerPath.split('.').pop()}` : '(no extension)';
+      extensions.add(extension);
+
+      if (extension === '.asc') {
         try {
-          // Get the file content as text
-          const content = await zipContent.files[filename].async('string');
-          
-          // Get just the filename without path
-          const simpleFilename = filename.split('/').pop() || filename;
-          
-          // Store the content in the folder map
-          mainFolderFiles.set(simpleFilename, content);
-          logInfo(`Successfully processed: ${simpleFilename}`);
-          
-          // Update progress (30-60% for main ZIP)
-          processedCount++;
-          const percent = 30 + (processedCount / ascFiles.length) * 30;
-          onProgress(percent);
+          // The path inside the archive is kept so same-named files in different folders stay apart
+          await visitFile(`${folder}/${path}`, entry);
+          logInfo(`Successfully processed: ${entryPath(folder, path)}`);
         } catch (err) {
-          logInfo(`Error extracting file ${filename}: ${err}`);
+          rethrowFatal(err);
+          logInfo(`Error extracting file ${path}: ${err}`);
         }
-      });
-      
-      await Promise.all(mainZipPromises);
-      
-      if (mainFolderFiles.size > 0) {
-        extractedFolders.push({
-          folderName: 'main',
-          files: mainFolderFiles
-        });
+      } else if (['.txt', '.csv', '.dat'].includes(extension) || lowerPath.includes('asc')) {
+        const target = `${folder === 'main' ? 'text_files' : folder}/${path}`;
+        textCandidates.push({ path, target, entry });
       }
+      return;
     }
-    
-    // Process nested ZIP files
-    if (nestedZipFiles.length > 0) {
-      let processedZipCount = 0;
-      
-      // Process each nested ZIP file
-      const nestedZipPromises = nestedZipFiles.map(async (zipFilePath, index) => {
-        try {
-          // Get the nested ZIP file as a blob
-          const nestedZipBlob = await zipContent.files[zipFilePath].async('blob');
-          const folderName = zipFilePath.split('/').pop()?.replace(/\.zip$/i, '') || `nested_${index}`;
-          
-          logInfo(`Processing nested ZIP: ${folderName}`);
-          
-          // Create a File object from the Blob
-          const nestedZipFile = new File([nestedZipBlob], folderName + '.zip', { type: 'application/zip' });
-          
-          // Extract files from the nested ZIP
-          const nestedZip = new JSZip();
-          const nestedZipContent = await nestedZip.loadAsync(nestedZipFile);
-          
-          // Get all files from the nested ZIP
-          const nestedAllFiles = Object.keys(nestedZipContent.files);
-          const nestedFiles = nestedAllFiles.filter(path => !nestedZipContent.files[path].dir);
-          
-          // Find ASC files in the nested ZIP
-          const nestedAscFiles = nestedFiles.filter(filename => filename.toLowerCase().endsWith('.asc'));
-          logInfo(`Found ${nestedAscFiles.length} ASC files in nested ZIP: ${folderName}`);
-          
-          if (nestedAscFiles.length > 0) {
-            const nestedFolderFiles = new Map<string, string>();
-            
-            // Process ASC files from the nested ZIP
-            for (const nestedFilename of nestedAscFiles) {
-              try {
-                const content = await nestedZipContent.files[nestedFilename].async('string');
-                const simpleFilename = nestedFilename.split('/').pop() || nestedFilename;
-                nestedFolderFiles.set(simpleFilename, content);
-                logInfo(`Successfully processed from nested ZIP: ${folderName}/${simpleFilename}`);
-              } catch (err) {
-                logInfo(`Error extracting nested file ${nestedFilename}: ${err}`);
-              }
-            }
-            
-            if (nestedFolderFiles.size > 0) {
-              extractedFolders.push({
-                folderName,
-                files: nestedFolderFiles
-              });
-            }
-          }
-          
-          // Update progress (60-90% for nested ZIPs)
-          processedZipCount++;
-          const percent = 60 + (processedZipCount / nestedZipFiles.length) * 30;
-          onProgress(percent);
-        } catch (zipErr) {
-          logInfo(`Error processing nested ZIP ${zipFilePath}: ${zipErr}`);
-        }
-      });
-      
-      await Promise.all(nestedZipPromises);
+
+    nestedArchives++;
+    if (depth >= limits.maxDepth) {
+      onLimit?.('maxDepth', entryPath(folder, path));
+      logInfo(`Skipping nested archive ${path}: nested more than ${limits.maxDepth} levels deep`);
+      onError(`Nested archive ${path} was skipped: it is nested more than ${limits.maxDepth} levels deep`);
+      return;
+    }
+
+    try {
+      const bytes = await readAll(entry);
+      if (kind === 'gzip') {
+        // A gzip wrapper holds a single file, which takes the wrapper's place
+        logInfo(`Decompressing gzip file: ${path}`);
+        await walkFile(gunzippedName(path), metered(gzipEntry(bytes), entryPath(folder, path)), folder, depth + 1);
+      } else {
+        const nested = nestedFolder(folder, path);
+        logInfo(`Processing nested archive: ${nested}`);
+        await walkArchive(kind, bytes, nested, depth + 1);
+      }
+    } catch (err) {
+      rethrowFatal(err);
+      logInfo(`Error processing nested archive ${path}: ${err}`);
     }
-    
+  };
+
+  try {
+    let bytes = await inputBytes(zipFile);
+    let depth = 0;
+    // A delivery wrapped in gzip (.tar.gz, .tgz, .zip.gz) is unwrapped first
+    if (archiveKindFromBytes(bytes) === 'gzip') {
+      logInfo('Decompressing gzip wrapper');
+      bytes = await readAll(metered(gzipEntry(bytes), ''));
+      depth++;
+    }
+    // Anything that isn't a TAR archive is left to JSZip, which reports what's wrong with it
+    const kind = archiveKindFromBytes(bytes) === 'tar' ? 'tar' : 'zip';
+
+    // Set progress to 30% after reading the input
+    onProgress(30);
+    await walkArchive(kind, bytes, 'main', depth);
+
     // Check if we found any files
-    if (extractedFolders.length === 0) {
-      // Log file extensions to help the user
-      const extensions = new Set(files.map(f => {
-        const ext = f.split('.').pop()?.toLowerCase() || '';
-        return ext ? `.${ext}` : '(no extension)';
-      }));
-      
+    if (visitedFiles === 0) {
       logInfo(`File extensions found: ${Array.from(extensions).join(', ')}`);
-      
+
       // Check for files that might be ASC but with different extensions
-      const possibleTextFiles = files.filter(file => {
-        const lowerName = file.toLowerCase();
-        return lowerName.endsWith('.txt') || 
-               lowerName.endsWith('.csv') || 
-               lowerName.endsWith('.dat') ||
-               lowerName.includes('asc');
-      });
-      
-      if (possibleTextFiles.length > 0) {
-        logInfo(`Found ${possibleTextFiles.length} potential text files that might contain ASC data`);
-        logInfo(`Examples: ${possibleTextFiles.slice(0, 3).join(', ')}${possibleTextFiles.length > 3 ? '...' : ''}`);
-        
-        // Extract a few samples to check content
+      if (textCandidates.length > 0) {
+        logInfo(`Found ${textCandidates.length} potential text files that might contain ASC data`);
+        logInfo(`Examples: ${textCandidates.slice(0, 3).map(file => file.path).join(', ')}${textCandidates.length > 3 ? '...' : ''}`);
+
+        // Extract a sample to check content; it is read (and counted against the limits) once
+        // and parsed from the bytes already read
         try {
-          const sampleFile = possibleTextFiles[0];
-          const sampleContent = await zipContent.files[sampleFile].async('string');
-          const firstLine = sampleContent.split('\n')[0].slice(0, 100);
-          logInfo(`Sample from ${sampleFile}: "${firstLine}${firstLine.length > 100 ? '...' : ''}"`);
-          
+          const sample = textCandidates[0];
+          const sampleBytes = await readAll(sample.entry);
+          const sampleLine = firstLine(sampleBytes, 100);
+          logInfo(`Sample from ${sample.path}: "${sampleLine}"`);
+
           // Check if it has pipe delimiters which would suggest it's an ASC file with wrong extension
-          if (firstLine.includes('|')) {
+          if (sampleLine.includes('|')) {
             logInfo('This looks like pipe-delimited data! Treating these as ASC files.');
-            // Process these files as ASC files
-            const textFolderFiles = new Map<string, string>();
-            
-            for (const textFile of possibleTextFiles) {
+
+            for (const textFile of textCandidates) {
               try {
-                const content = await zipContent.files[textFile].async('string');
-                const simpleFilename = textFile.split('/').pop() || textFile;
-                textFolderFiles.set(simpleFilename, content);
+                await visitFile(textFile.target, textFile === sample ? bytesEntry(sampleBytes) : textFile.entry);
               } catch (error) {
-                logInfo(`Failed to process ${textFile}: ${error}`);
+                rethrowFatal(error);
+                logInfo(`Failed to process ${textFile.path}: ${error}`);
               }
             }
-            
-            if (textFolderFiles.size > 0) {
-              extractedFolders.push({
-                folderName: 'text_files',
-                files: textFolderFiles
-              });
-            }
           }
         } catch (e) {
+          rethrowFatal(e);
           logInfo(`Error examining sample file: ${e}`);
         }
       }
-      
-      if (extractedFolders.length === 0) {
-        if (nestedZipFiles.length > 0) {
-          onError(`No .asc files found in the main ZIP or nested ZIP files. Please ensure your ZIP contains .asc files.`);
+
+      if (visitedFiles === 0) {
+        if (nestedArchives > 0) {
+          onError(`No .asc files found in the main ZIP or nested archives. Please ensure your ZIP contains .asc files.`);
         } else {
           onError('No .asc files found in the ZIP file. Please ensure your ZIP contains .asc files or check subdirectories.');
         }
-        return fileContents;
-      }
-    }
-    
-    // Combine files from all folders into a single map for backward compatibility
-    for (const folder of extractedFolders) {
-      for (const [filename, content] of folder.files.entries()) {
-        const prefixedFilename = `${folder.folderName}/${filename}`;
-        fileContents.set(prefixedFilename, content);
+        return 0;
       }
     }
-    
+
     onProgress(100);
-    logInfo(`Total extracted ASC files: ${fileContents.size} from ${extractedFolders.length} folders`);
-    
-    return fileContents;
+    logInfo(`Total extracted ASC files: ${visitedFiles} from ${visitedFolders.size} folders`);
+
+    return visitedFiles;
   } catch (error) {
+    // A cancelled run is not an extraction error
+    if (signal?.aborted) throw error;
     onError('Error extracting ZIP file: ' + (error instanceof Error ? error.message : String(error)));
     console.error('Error extracting ZIP:', error);
-    return fileContents;
+    return visitedFiles;
   }
-}; 
\ No newline at end of file
+}
+
+/**
+ * Extract .asc files from a ZIP file including nested archives
+ * Every file is held in memory as a string; use streamAscFromZip for large extracts
+ */
+export const extractAscFromZip = async (
+  zipFile: ZipInput,
+  options: ZipHandlerOptions
+): Promise<Map<string, string>> => {
+  const fileContents = new Map<string, string>();
+  await walkAscEntries(zipFile, options, async (path, entry) => {
+    const { text, report } = decodeBytes(await readAll(entry), options.encoding);
+    fileContents.set(path, text);
+    encodingDiagnostics(report, path).forEach(diagnostic => options.onDiagnostic?.(diagnostic));
+  });
+  return fileContents;
+};
+
+/**
+ * Stream the .asc files of a ZIP file (including nested archives) into text sinks
+ * Entries are decompressed and decoded chunk by chunk, so the raw text of a
+ * file is never held in memory as a whole. Returns the number of files streamed.
+ */
+export const streamAscFromZip = async (
+  zipFile: ZipInput,
+  options: StreamZipOptions
+): Promise<number> => {
+  return walkAscEntries(zipFile, options, (path, entry) => streamEntry(entry, options.openFile(path), options.encoding));
+};
+
+/**
+ * Stream a loose (not zipped) .asc file into a sink, chunk by chunk
+ */
+export const streamAscFile = async (file: ZipInput, sink: AscFileSink, encoding?: EncodingOption): Promise<void> => {
+  const entry = file instanceof Blob
+    ? blobEntry(file)
+    : bytesEntry(file instanceof Uint8Array ? file : new Uint8Array(file));
+  await streamEntry(entry, sink, encoding);
+};
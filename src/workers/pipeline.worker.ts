@@ -0,0 +1,85 @@
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import { compareInputs, generateOutput, ParsedInputs, parseInputs, PipelineCallbacks, PipelineOptions } from '../utils/pipeline';
+import type { SectionSelection } from '../utils/selection';
+import { createPreviewSource, PreviewSource } from '../utils/preview';
+import type { WorkerRequest, WorkerResponse } from './protocol';
+
+let controller: AbortController | null = null;
+
+// Parsed data waiting for the user's selection (review mode)
+let pending: { parsed: ParsedInputs; options: PipelineOptions } | null = null;
+// Rows of the parsed inputs for the preview grid, kept after the output is built
+let preview: PreviewSource | null = null;
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+const callbacks = (signal: AbortSignal): PipelineCallbacks => ({
+  onProgress: (percent) => post({ type: 'progress', percent }),
+  onStatus: (message) => post({ type: 'status', message }),
+  onDebug: (message) => post({ type: 'info', message }),
+  onDiagnostics: (diagnostics) => post({ type: 'diagnostics', diagnostics }),
+  signal
+});
+
+/**
+ * Build the output file and send it to the UI thread
+ */
+async function postOutput(parsed: ParsedInputs, options: PipelineOptions, signal: AbortSignal, selection?: SectionSelection) {
+  // The SQLite engine is served by Vite as a separate asset
+  const output = await generateOutput(parsed, { ...options, sqlWasmUrl }, selection, callbacks(signal));
+  signal.throwIfAborted();
+  const blob = new Blob([output.data], { type: output.mimeType });
+  post({ type: 'progress', percent: 100 });
+  post({
+    type: 'result', blob, format: output.format, tableCount: output.tableCount, splits: output.splits,
+    sections: parsed.sections, fileCount: parsed.fileCount, changes: parsed.changes
+  });
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controller?.abort();
+    return;
+  }
+
+  if (request.type === 'query') {
+    post({ type: 'page', id: request.id, page: preview ? preview.query(request.query) : null });
+    return;
+  }
+
+  controller = new AbortController();
+  const { signal } = controller;
+
+  try {
+    if (request.type === 'generate') {
+      if (!pending) throw new Error('No hay datos analizados para generar el archivo');
+      const { parsed, options } = pending;
+      pending = null;
+      await postOutput(parsed, options, signal, request.selection);
+      return;
+    }
+
+    const parsed = request.options.compare
+      ? await compareInputs(request.inputs, request.options, callbacks(signal))
+      : await parseInputs(request.inputs, request.options, callbacks(signal));
+    signal.throwIfAborted();
+
+    preview = createPreviewSource(parsed.sectionMap);
+    post({ type: 'parsed', sections: parsed.sections, fileCount: parsed.fileCount });
+    if (request.review) {
+      pending = { parsed, options: request.options };
+      return;
+    }
+    await postOutput(parsed, request.options, signal);
+  } catch (error) {
+    if (signal.aborted) {
+      post({ type: 'cancelled' });
+    } else {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    controller = null;
+  }
+};
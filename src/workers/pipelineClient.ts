@@ -0,0 +1,166 @@
+import type { Diagnostic } from '../utils/diagnostics';
+import type { PipelineInput, PipelineOptions, SectionSummary } from '../utils/pipeline';
+import type { SectionSelection } from '../utils/selection';
+import type { PreviewPage, PreviewQuery } from '../utils/preview';
+import type { OutputFormat } from '../utils/output';
+import type { TableSplit } from '../utils/excel';
+import type { SectionChanges } from '../utils/diff';
+import type { WorkerRequest, WorkerResponse } from './protocol';
+
+export interface PipelineHandlers {
+  onProgress?: (percent: number) => void;
+  onStatus?: (message: string) => void;
+  onInfo?: (message: string) => void;
+  onDiagnostics?: (diagnostics: Diagnostic[]) => void;
+  // Parsing finished; the rows can be previewed from now until the run is disposed
+  onParsed?: (sections: SectionSummary[], fileCount: number) => void;
+  // When given, the run pauses after parsing until it resolves with the sections and
+  // columns to write (or null to cancel the run)
+  onReview?: (sections: SectionSummary[], fileCount: number) => Promise<SectionSelection | null>;
+}
+
+export interface PipelineOutput {
+  blob: Blob;
+  format: OutputFormat;
+  sections: SectionSummary[];
+  fileCount: number;
+  // Tables in the generated file (sections, reports and Validación), before splitting
+  tableCount: number;
+  // Tables split into several sheets or workbooks by the Excel row limit
+  splits: TableSplit[];
+  // Row counts per section when comparing two extractions
+  changes?: SectionChanges[];
+}
+
+export interface PipelineRun {
+  // Resolves with null when the run was cancelled
+  promise: Promise<PipelineOutput | null>;
+  cancel: () => void;
+  // Rows for the preview grid, once the inputs are parsed
+  preview: (query: PreviewQuery) => Promise<PreviewPage>;
+  // Stops the worker, dropping the parsed data kept for the preview
+  dispose: () => void;
+}
+
+// Parsing is synchronous inside the worker, so a cancel request may not be seen
+// until the current step ends; after this delay the worker is terminated instead
+const CANCEL_GRACE_MS = 1000;
+
+/**
+ * Run the ZIP → workbook pipeline in a Web Worker so the page stays responsive
+ * With an onReview handler the parsed data stays in the worker while the user picks
+ * the sections and columns, then the workbook is generated from it
+ * A finished run keeps its worker (and parsed data) for the preview until disposed
+ */
+export const startPipeline = (
+  inputs: PipelineInput[],
+  options: PipelineOptions,
+  handlers: PipelineHandlers = {}
+): PipelineRun => {
+  const worker = new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' });
+  const send = (request: WorkerRequest) => worker.postMessage(request);
+
+  let settle: (output: PipelineOutput | null) => void = () => {};
+  let cancelTimer: ReturnType<typeof setTimeout> | undefined;
+  // The worker is idle while the user reviews the sections, so a cancel can settle at once
+  let reviewing = false;
+  // Preview queries waiting for their page, by id
+  const pageRequests = new Map<number, (page: PreviewPage | null) => void>();
+  let nextQueryId = 0;
+
+  const promise = new Promise<PipelineOutput | null>((resolve, reject) => {
+    settle = (output) => {
+      clearTimeout(cancelTimer);
+      if (!output) worker.terminate();
+      resolve(output);
+    };
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          handlers.onProgress?.(message.percent);
+          break;
+        case 'status':
+          handlers.onStatus?.(message.message);
+          break;
+        case 'info':
+          handlers.onInfo?.(message.message);
+          break;
+        case 'diagnostics':
+          handlers.onDiagnostics?.(message.diagnostics);
+          break;
+        case 'parsed':
+          handlers.onParsed?.(message.sections, message.fileCount);
+          if (!handlers.onReview) break;
+          reviewing = true;
+          handlers.onReview?.(message.sections, message.fileCount).then((selection) => {
+            if (!reviewing) return;
+            reviewing = false;
+            if (selection) send({ type: 'generate', selection });
+            else settle(null);
+          }, (error) => {
+            reviewing = false;
+            worker.terminate();
+            reject(error);
+          });
+          break;
+        case 'page':
+          pageRequests.get(message.id)?.(message.page);
+          pageRequests.delete(message.id);
+          break;
+        case 'result':
+          settle({
+            blob: message.blob, format: message.format,
+            sections: message.sections, fileCount: message.fileCount,
+            tableCount: message.tableCount, splits: message.splits, changes: message.changes
+          });
+          break;
+        case 'cancelled':
+          settle(null);
+          break;
+        case 'error':
+          clearTimeout(cancelTimer);
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Error en el proceso de conversión'));
+    };
+  });
+
+  send({ type: 'start', inputs, options, review: Boolean(handlers.onReview) });
+
+  const cancel = () => {
+    if (reviewing) {
+      reviewing = false;
+      settle(null);
+      return;
+    }
+    send({ type: 'cancel' });
+    cancelTimer = setTimeout(() => settle(null), CANCEL_GRACE_MS);
+  };
+
+  const preview = (query: PreviewQuery) => new Promise<PreviewPage>((resolve, reject) => {
+    const id = nextQueryId++;
+    pageRequests.set(id, (page) => {
+      if (page) resolve(page);
+      else reject(new Error('Los datos analizados ya no están disponibles'));
+    });
+    send({ type: 'query', id, query });
+  });
+
+  const dispose = () => {
+    clearTimeout(cancelTimer);
+    worker.terminate();
+    // Answer the queries the terminated worker left unanswered
+    for (const answer of pageRequests.values()) answer(null);
+    pageRequests.clear();
+  };
+
+  return { promise, cancel, preview, dispose };
+};
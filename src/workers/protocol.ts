@@ -0,0 +1,41 @@
+import type { Diagnostic } from '../utils/diagnostics';
+import type { PipelineInput, PipelineOptions, SectionSummary } from '../utils/pipeline';
+import type { SectionSelection } from '../utils/selection';
+import type { PreviewPage, PreviewQuery } from '../utils/preview';
+import type { OutputFormat } from '../utils/output';
+import type { TableSplit } from '../utils/excel';
+import type { SectionChanges } from '../utils/diff';
+
+/**
+ * Messages exchanged between the UI thread and the pipeline worker
+ */
+
+export type WorkerRequest =
+  // The inputs carry File objects, which are cloned to the worker without copying their bytes
+  // With review, the worker stops after parsing (sending "parsed") and waits for "generate"
+  | { type: 'start'; inputs: PipelineInput[]; options: PipelineOptions; review?: boolean }
+  // Build the output file of the parsed inputs with the sections and columns picked by the user
+  | { type: 'generate'; selection: SectionSelection }
+  // Rows of the preview grid, answered with "page" (any time after "parsed")
+  | { type: 'query'; id: number; query: PreviewQuery }
+  // Stops the pipeline at the next step or file boundary
+  | { type: 'cancel' };
+
+export type WorkerResponse =
+  | { type: 'progress'; percent: number }
+  // User facing status line
+  | { type: 'status'; message: string }
+  // Detailed log line for the debug panel
+  | { type: 'info'; message: string }
+  | { type: 'diagnostics'; diagnostics: Diagnostic[] }
+  // Parsing finished; with review, the worker waits for "generate" before building the output
+  | { type: 'parsed'; sections: SectionSummary[]; fileCount: number }
+  // Answer to "query"; page is null when there is no parsed data to preview
+  | { type: 'page'; id: number; page: PreviewPage | null }
+  // The output file; tableCount is the number of tables (sheets before splitting)
+  | {
+      type: 'result'; blob: Blob; format: OutputFormat; tableCount: number; splits: TableSplit[];
+      sections: SectionSummary[]; fileCount: number; changes?: SectionChanges[];
+    }
+  | { type: 'error'; message: string }
+  | { type: 'cancelled' };
@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react-swc'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The pipeline worker is a module worker; it loads the SQLite engine as a separate chunk
+  worker: {
+    format: 'es',
+  },
 })
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+
+// Node build of the conversion pipeline (CLI + programmatic API + benchmark)
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist-node',
+    target: 'node18',
+    rollupOptions: {
+      input: {
+        index: 'src/node/index.ts',
+        cli: 'src/node/cli.ts',
+        bench: 'src/node/bench.ts',
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+      },
+    },
+  },
+})